@@ -1,6 +1,17 @@
 import { app, BrowserWindow, dialog, globalShortcut, ipcMain, Menu, screen } from 'electron';
+import * as fs from 'fs';
 import * as path from 'path';
 import { autoUpdater, UpdateInfo, ProgressInfo } from 'electron-updater';
+import type { InputBackendPreference, InputBackendStatus } from '../shared/input';
+import { getDefaultOverlayLayout, normalizeOverlayLayout } from '../shared/overlayLayout';
+import type { OverlayEditState, OverlayLayout } from '../shared/overlayLayout';
+import { normalizeSteps, SEQUENCE_SLOTS } from '../shared/sequences';
+import { toHealthUrl, toWebSocketUrl } from '../shared/servers';
+import type { ServerTestResult } from '../shared/servers';
+import type { ActionFiredEvent, ResolvedSequences, SequenceSlot, SequenceStep } from '../shared/sequences';
+import { createInputBackend, isInputBackendPreference } from './input';
+import type { InputBackend } from './input';
+import { cancelSequences, runSequence } from './sequences';
 
 // Fix for HDR (10-bit) displays — desktopCapturer requires 8-bit RGBA
 app.commandLine.appendSwitch('force-color-profile', 'srgb');
@@ -9,22 +20,20 @@ app.commandLine.appendSwitch('force-color-profile', 'srgb');
 autoUpdater.autoDownload = true;
 autoUpdater.autoInstallOnAppQuit = true;
 
-// Load RobotJS — required for key simulation features.
-let robot: { keyTap: (key: string) => void } | null = null;
-let robotjsError: string | null = null;
-try {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  robot = require('@jitsi/robotjs');
-} catch (error) {
-  const msg = error instanceof Error ? error.message : String(error);
-  robotjsError = `RobotJS failed to load: ${msg}`;
-  console.error(robotjsError);
-}
+// Key simulation backend, chosen in the connect window. SHD_INPUT_BACKEND (auto, robotjs,
+// xdotool or dry-run) overrides that choice, e.g. to rehearse a start headlessly.
+const INPUT_BACKEND_OVERRIDE = process.env.SHD_INPUT_BACKEND;
+let input: InputBackend | null = null;
+let inputError: string | null = null;
+let inputPreference: InputBackendPreference = 'auto';
 
 let connectWindow: BrowserWindow | null = null;
 let overlayWindow: BrowserWindow | null = null;
 let overlayReady = false;
 let pendingOverlayMessages: unknown[] = [];
+let overlayLayout: OverlayLayout = getDefaultOverlayLayout();
+// While editing the layout the overlay takes mouse input instead of passing it through
+let overlayEditing = false;
 
 function createConnectWindow() {
   connectWindow = new BrowserWindow({
@@ -38,6 +47,8 @@ function createConnectWindow() {
       nodeIntegration: true,
       contextIsolation: false,
       sandbox: false,
+      // Audio cues play from lobby messages, not clicks
+      autoplayPolicy: 'no-user-gesture-required',
     },
     icon: path.join(__dirname, '../../icons/icon.png'),
   });
@@ -45,9 +56,11 @@ function createConnectWindow() {
   connectWindow.loadFile(path.join(__dirname, '../renderer/connect/index.html'));
 
   connectWindow.webContents.on('did-finish-load', () => {
-    if (robotjsError && connectWindow) {
-      connectWindow.webContents.send('app-error', robotjsError);
+    if (inputError && connectWindow) {
+      connectWindow.webContents.send('app-error', inputError);
     }
+    sendInputStatus();
+    sendOverlayTheme();
   });
 
   connectWindow.on('closed', () => {
@@ -60,22 +73,92 @@ function createConnectWindow() {
   });
 }
 
+// ── Overlay Layout ───────────────────────────────────────────
+
+function getOverlayLayoutPath(): string {
+  return path.join(app.getPath('userData'), 'overlay-layout.json');
+}
+
+function loadOverlayLayout() {
+  try {
+    overlayLayout = normalizeOverlayLayout(JSON.parse(fs.readFileSync(getOverlayLayoutPath(), 'utf8')));
+  } catch {
+    // First run, or an unreadable file
+    overlayLayout = getDefaultOverlayLayout();
+  }
+}
+
+function saveOverlayLayout() {
+  fs.writeFile(getOverlayLayoutPath(), JSON.stringify(overlayLayout, null, 2), (error) => {
+    if (error) console.error('Failed to save overlay layout:', error);
+  });
+}
+
+// The layout's display, or the primary one while that display is unplugged
+function getOverlayDisplay(): Electron.Display {
+  return screen.getAllDisplays().find((display) => display.id === overlayLayout.displayId) ?? screen.getPrimaryDisplay();
+}
+
+function sendOverlayEditState() {
+  if (!overlayWindow || !overlayReady) return;
+  const primaryId = screen.getPrimaryDisplay().id;
+  const state: OverlayEditState = {
+    editing: overlayEditing,
+    layout: overlayLayout,
+    displays: screen.getAllDisplays().map((display, index) => ({
+      id: display.id,
+      label: `${display.label || `Display ${index + 1}`} (${display.size.width}×${display.size.height})`,
+      primary: display.id === primaryId,
+    })),
+    activeDisplayId: getOverlayDisplay().id,
+  };
+  overlayWindow.webContents.send('overlay-edit-state', state);
+}
+
+// The connect window colours agents with the overlay theme's palette
+function sendOverlayTheme() {
+  if (connectWindow) connectWindow.webContents.send('overlay-theme', overlayLayout.theme);
+}
+
+// Move the overlay onto its display; also run whenever displays are added, removed or resized
+function applyOverlayBounds() {
+  if (!overlayWindow) return;
+  overlayWindow.setBounds(getOverlayDisplay().workArea);
+  sendOverlayEditState();
+}
+
+function setOverlayEditing(editing: boolean) {
+  overlayEditing = editing;
+  if (!overlayWindow) {
+    // The layout is sent once the new window has loaded
+    if (editing) createOverlayWindow();
+    return;
+  }
+  overlayWindow.setIgnoreMouseEvents(!editing);
+  overlayWindow.setFocusable(editing);
+  if (editing) {
+    overlayWindow.show();
+    overlayWindow.focus();
+  }
+  sendOverlayEditState();
+}
+
 function createOverlayWindow() {
-  const { width: screenWidth, height: screenHeight } = screen.getPrimaryDisplay().workAreaSize;
+  const { x, y, width, height } = getOverlayDisplay().workArea;
 
   overlayReady = false;
   pendingOverlayMessages = [];
 
   overlayWindow = new BrowserWindow({
-    width: screenWidth,
-    height: screenHeight,
-    x: 0,
-    y: 0,
+    width,
+    height,
+    x,
+    y,
     transparent: true,
     frame: false,
     skipTaskbar: true,
     resizable: false,
-    focusable: false,
+    focusable: overlayEditing,
     show: false, // Don't show until renderer is loaded — prevents blank overlay
     webPreferences: {
       nodeIntegration: true,
@@ -86,7 +169,7 @@ function createOverlayWindow() {
 
   // Use 'screen-saver' level so overlay stays above fullscreen games
   overlayWindow.setAlwaysOnTop(true, 'screen-saver');
-  overlayWindow.setIgnoreMouseEvents(true);
+  overlayWindow.setIgnoreMouseEvents(!overlayEditing);
 
   overlayWindow.loadFile(path.join(__dirname, '../renderer/overlay/index.html'));
 
@@ -97,6 +180,7 @@ function createOverlayWindow() {
       overlayWindow?.webContents.send('overlay-update', msg);
     }
     pendingOverlayMessages = [];
+    sendOverlayEditState();
     // Now safe to show
     overlayWindow?.show();
   });
@@ -112,8 +196,9 @@ interface KeybindsConfig {
   ready: string;
   start: string;
   testRoll: string;
-  rollDelaySeconds?: number;
+  rollOffsetMs?: number;
   rollKey?: string;
+  inputBackend?: InputBackendPreference;
 }
 
 const DEFAULT_KEYBINDS: KeybindsConfig = {
@@ -124,6 +209,9 @@ const DEFAULT_KEYBINDS: KeybindsConfig = {
 };
 
 let currentKeybinds: KeybindsConfig = { ...DEFAULT_KEYBINDS };
+const SERVER_TEST_TIMEOUT_MS = 5000;
+
+let currentSequences: ResolvedSequences = { starter: null, follower: null, travel: null };
 
 function registerKeybinds(config: KeybindsConfig) {
   globalShortcut.unregisterAll();
@@ -135,7 +223,7 @@ function registerKeybinds(config: KeybindsConfig) {
     if (connectWindow) connectWindow.webContents.send('hotkey-start');
   });
   const registeredTestRoll = globalShortcut.register(config.testRoll, () => {
-    setTimeout(() => sendRollKeyTap(), 1000);
+    runAction('follower', Date.now() + 1000);
   });
 
   const failures: string[] = [];
@@ -154,28 +242,59 @@ function registerKeybinds(config: KeybindsConfig) {
   currentKeybinds = { ...config };
 }
 
-function sendRollKeyTap() {
-  if (!robot) {
-    const msg = robotjsError || 'RobotJS not loaded — key simulation unavailable.';
-    console.error(msg);
-    if (connectWindow) connectWindow.webContents.send('app-error', msg);
-    return;
+// What each slot does when no sequence is assigned: the starter and travel tap space,
+// everyone else double-taps the roll key
+function getBuiltInSequence(slot: SequenceSlot): SequenceStep[] {
+  if (slot === 'follower') {
+    const key = currentKeybinds.rollKey || 'space';
+    return [{ type: 'tap', key }, { type: 'wait', ms: 50 }, { type: 'tap', key }];
   }
-  const key = currentKeybinds.rollKey || 'space';
-  robot.keyTap(key);
-  setTimeout(() => {
-    robot!.keyTap(key);
-  }, 50);
+  return [{ type: 'tap', key: 'space' }];
 }
 
-function sendSpaceKeyTap() {
-  if (!robot) {
-    const msg = robotjsError || 'RobotJS not loaded — key simulation unavailable.';
-    console.error(msg);
-    if (connectWindow) connectWindow.webContents.send('app-error', msg);
+function reportError(msg: string) {
+  console.error(msg);
+  if (connectWindow) connectWindow.webContents.send('app-error', msg);
+}
+
+function sendInputStatus() {
+  const status: InputBackendStatus = input
+    ? { name: input.name, detail: input.detail }
+    : { name: null, detail: inputError || 'Key simulation unavailable.' };
+  if (connectWindow) connectWindow.webContents.send('input-backend', status);
+}
+
+// Swap the key simulation backend. Anything still scheduled on the old one is cancelled.
+function selectInputBackend(preference: InputBackendPreference): string | null {
+  cancelSequences(input);
+  input?.dispose?.();
+  inputPreference = preference;
+  const effective = isInputBackendPreference(INPUT_BACKEND_OVERRIDE) ? INPUT_BACKEND_OVERRIDE : preference;
+  const result = createInputBackend(effective, {
+    dryRunLogPath: path.join(app.getPath('userData'), 'input-dry-run.log'),
+    onError: reportError,
+  });
+  input = result.backend;
+  inputError = result.error;
+  if (input) {
+    console.log(`Input backend: ${input.detail}`);
+  } else {
+    console.error(inputError);
+  }
+  sendInputStatus();
+  return inputError;
+}
+
+// `at` is this machine's clock, already converted from the server's start time
+function runAction(slot: SequenceSlot, at: number) {
+  if (!input) {
+    reportError(inputError || 'Key simulation unavailable.');
     return;
   }
-  robot.keyTap('space');
+  runSequence(input, currentSequences[slot] ?? getBuiltInSequence(slot), at, reportError, (targetAt, firedAt) => {
+    const event: ActionFiredEvent = { slot, targetAt, firedAt };
+    if (connectWindow) connectWindow.webContents.send('action-fired', event);
+  });
 }
 
 // IPC handlers
@@ -190,7 +309,8 @@ ipcMain.on('show-overlay', () => {
 });
 
 ipcMain.on('hide-overlay', () => {
-  if (overlayWindow) {
+  // Keep it up while the layout is being edited, e.g. when a countdown ends meanwhile
+  if (overlayWindow && !overlayEditing) {
     overlayWindow.hide();
   }
 });
@@ -206,12 +326,72 @@ ipcMain.on('update-overlay', (_event, data) => {
   }
 });
 
-ipcMain.on('start-roll', () => {
-  sendRollKeyTap();
+ipcMain.on('overlay-edit', (_event, editing: boolean) => {
+  setOverlayEditing(editing === true);
+});
+
+ipcMain.on('overlay-layout', (_event, layout: unknown) => {
+  const previous = overlayLayout;
+  overlayLayout = normalizeOverlayLayout(layout);
+  saveOverlayLayout();
+  if (overlayLayout.displayId !== previous.displayId) {
+    applyOverlayBounds();
+  }
+  if (overlayLayout.theme !== previous.theme) {
+    sendOverlayTheme();
+  }
+});
+
+ipcMain.on('run-action', (_event, request: { slot: SequenceSlot; at: number }) => {
+  if (SEQUENCE_SLOTS.includes(request.slot) && Number.isFinite(request.at)) {
+    runAction(request.slot, request.at);
+  }
+});
+
+ipcMain.on('cancel-actions', () => {
+  cancelSequences(input);
 });
 
-ipcMain.on('start-space', () => {
-  sendSpaceKeyTap();
+ipcMain.on('sequences-config', (_event, config: Partial<Record<SequenceSlot, unknown>>) => {
+  currentSequences = {
+    starter: normalizeSteps(config.starter),
+    follower: normalizeSteps(config.follower),
+    travel: normalizeSteps(config.travel),
+  };
+});
+
+// Connection test for a server profile. Runs here rather than in the renderer, where fetch
+// would be blocked by CORS.
+async function testServer(rawUrl: string): Promise<ServerTestResult> {
+  const wsUrl = toWebSocketUrl(rawUrl);
+  if (!wsUrl) {
+    return { ok: false, error: 'Not a valid server URL' };
+  }
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(toHealthUrl(wsUrl), { signal: AbortSignal.timeout(SERVER_TEST_TIMEOUT_MS) });
+    const latencyMs = Date.now() - startedAt;
+    if (!response.ok) {
+      return { ok: false, latencyMs, error: `/health answered ${response.status}` };
+    }
+    const health = await response.json() as Record<string, unknown>;
+    return {
+      ok: health.status === 'ok',
+      latencyMs,
+      version: typeof health.version === 'string' ? health.version : undefined,
+      protocolVersion: typeof health.protocolVersion === 'number' ? health.protocolVersion : undefined,
+      clients: typeof health.clients === 'number' ? health.clients : undefined,
+      rooms: typeof health.rooms === 'number' ? health.rooms : undefined,
+    };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+ipcMain.handle('test-server', (_event, url: string) => testServer(String(url)));
+
+ipcMain.on('get-app-version', (event) => {
+  event.returnValue = app.getVersion();
 });
 
 ipcMain.on('keybinds-config', (_event, config: KeybindsConfig) => {
@@ -222,6 +402,11 @@ ipcMain.on('keybinds-config', (_event, config: KeybindsConfig) => {
     rollKey: config.rollKey || DEFAULT_KEYBINDS.rollKey,
   };
   registerKeybinds(merged);
+  const preference = isInputBackendPreference(config.inputBackend) ? config.inputBackend : 'auto';
+  if (preference !== inputPreference) {
+    const error = selectInputBackend(preference);
+    if (error) reportError(error);
+  }
 });
 
 // Auto-updater event handlers
@@ -274,8 +459,13 @@ function setupAutoUpdater() {
 // App lifecycle
 app.whenReady().then(() => {
   Menu.setApplicationMenu(null); // Remove File, Edit, View, etc. menu bar
+  selectInputBackend('auto');
+  loadOverlayLayout();
   createConnectWindow();
   createOverlayWindow();
+  screen.on('display-added', applyOverlayBounds);
+  screen.on('display-removed', applyOverlayBounds);
+  screen.on('display-metrics-changed', applyOverlayBounds);
   registerKeybinds(DEFAULT_KEYBINDS);
   setupAutoUpdater();
 });
@@ -287,6 +477,8 @@ app.on('window-all-closed', () => {
 
 app.on('will-quit', () => {
   globalShortcut.unregisterAll();
+  cancelSequences(input);
+  input?.dispose?.();
 });
 
 app.on('activate', () => {
@@ -0,0 +1,153 @@
+import { execFile, execFileSync } from 'child_process';
+import * as fs from 'fs';
+import { performance } from 'perf_hooks';
+import type { InputBackendName, InputBackendPreference } from '../shared/input';
+
+// robotjs key names throughout; other backends translate them
+export interface KeyInput {
+  keyTap: (key: string) => void;
+  keyToggle: (key: string, state: 'down' | 'up') => void;
+}
+
+export interface InputBackend extends KeyInput {
+  name: InputBackendName;
+  detail: string;
+  dispose?: () => void;
+}
+
+export interface InputBackendOptions {
+  dryRunLogPath: string;
+  // Backends that press keys asynchronously report failures here instead of throwing
+  onError: (message: string) => void;
+}
+
+// One line of the dry-run log
+export interface DryRunEvent {
+  at: number; // epoch ms with sub-millisecond precision, comparable to Date.now()
+  hrtime: string; // process.hrtime.bigint() in ns, for measuring gaps between events
+  action: 'tap' | 'down' | 'up';
+  key: string;
+}
+
+// ── robotjs ──────────────────────────────────────────────────
+
+function createRobotjsBackend(): InputBackend {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const robot = require('@jitsi/robotjs') as KeyInput;
+  return {
+    name: 'robotjs',
+    detail: 'Pressing keys with robotjs',
+    keyTap: (key) => robot.keyTap(key),
+    keyToggle: (key, state) => robot.keyToggle(key, state),
+  };
+}
+
+// ── xdotool (Linux) ──────────────────────────────────────────
+
+// X keysym names for the robotjs names that differ
+const XDOTOOL_KEYS: Record<string, string> = {
+  space: 'space',
+  enter: 'Return',
+  escape: 'Escape',
+  backspace: 'BackSpace',
+  tab: 'Tab',
+  delete: 'Delete',
+  capslock: 'Caps_Lock',
+  control: 'Control_L',
+  shift: 'Shift_L',
+  alt: 'Alt_L',
+  command: 'Super_L',
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+};
+
+function createXdotoolBackend(options: InputBackendOptions): InputBackend {
+  if (process.platform !== 'linux') {
+    throw new Error('xdotool is only available on Linux');
+  }
+  try {
+    execFileSync('xdotool', ['version'], { stdio: 'ignore', timeout: 2000 });
+  } catch {
+    throw new Error('xdotool is not installed');
+  }
+
+  // Each event is its own process, so chain them to keep a tap's order relative to the
+  // key downs and ups around it
+  let queue = Promise.resolve();
+  const run = (args: string[]) => {
+    queue = queue.then(() => new Promise<void>((resolve) => {
+      execFile('xdotool', args, (error) => {
+        if (error) {
+          options.onError(`xdotool ${args.join(' ')} failed: ${error.message}`);
+        }
+        resolve();
+      });
+    }));
+  };
+  const toKeysym = (key: string) => XDOTOOL_KEYS[key] ?? key;
+
+  return {
+    name: 'xdotool',
+    detail: 'Pressing keys with xdotool',
+    keyTap: (key) => run(['key', toKeysym(key)]),
+    keyToggle: (key, state) => run([state === 'down' ? 'keydown' : 'keyup', toKeysym(key)]),
+  };
+}
+
+// ── Dry run ──────────────────────────────────────────────────
+
+function createDryRunBackend(options: InputBackendOptions): InputBackend {
+  const log = fs.createWriteStream(options.dryRunLogPath, { flags: 'a' });
+  log.on('error', (error) => options.onError(`Dry-run log failed: ${error.message}`));
+
+  const record = (action: DryRunEvent['action'], key: string) => {
+    const event: DryRunEvent = {
+      at: performance.timeOrigin + performance.now(),
+      hrtime: process.hrtime.bigint().toString(),
+      action,
+      key,
+    };
+    log.write(`${JSON.stringify(event)}\n`);
+  };
+
+  return {
+    name: 'dry-run',
+    detail: `Dry run: no keys are pressed, events are logged to ${options.dryRunLogPath}`,
+    keyTap: (key) => record('tap', key),
+    keyToggle: (key, state) => record(state, key),
+    dispose: () => log.end(),
+  };
+}
+
+// ── Selection ────────────────────────────────────────────────
+
+const FACTORIES: Record<InputBackendName, (options: InputBackendOptions) => InputBackend> = {
+  'robotjs': createRobotjsBackend,
+  'xdotool': createXdotoolBackend,
+  'dry-run': createDryRunBackend,
+};
+
+export function isInputBackendPreference(value: unknown): value is InputBackendPreference {
+  return value === 'auto' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(FACTORIES, value));
+}
+
+// Returns the backend, or null with the reason each candidate failed
+export function createInputBackend(
+  preference: InputBackendPreference,
+  options: InputBackendOptions,
+): { backend: InputBackend; error: null } | { backend: null; error: string } {
+  const candidates: InputBackendName[] = preference === 'auto'
+    ? (process.platform === 'linux' ? ['robotjs', 'xdotool'] : ['robotjs'])
+    : [preference];
+  const failures: string[] = [];
+  for (const name of candidates) {
+    try {
+      return { backend: FACTORIES[name](options), error: null };
+    } catch (error) {
+      failures.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { backend: null, error: `Key simulation unavailable (${failures.join('; ')})` };
+}
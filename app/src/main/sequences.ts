@@ -0,0 +1,91 @@
+import { performance } from 'perf_hooks';
+import { getSequenceDurationMs, getStepTimeline } from '../shared/sequences';
+import type { SequenceStep } from '../shared/sequences';
+import type { KeyInput } from './input';
+
+interface SequenceRun {
+  timers: Set<ReturnType<typeof setTimeout>>;
+  heldKeys: Set<string>;
+}
+
+const activeRuns = new Set<SequenceRun>();
+
+function releaseHeldKeys(input: KeyInput, run: SequenceRun) {
+  for (const key of run.heldKeys) {
+    input.keyToggle(key, 'up');
+  }
+  run.heldKeys.clear();
+}
+
+// Run the steps against `startAt` (this machine's clock, ms). Steps sharing an offset fire
+// from one timer so their order is kept. Keys the sequence still holds when it ends, after
+// any trailing waits, are released so a missing key up can't leave the game running forward. `onFirstKey` gets the
+// intended and actual time of the first key event, for measuring timer accuracy.
+export function runSequence(
+  input: KeyInput,
+  steps: SequenceStep[],
+  startAt: number,
+  onError: (message: string) => void,
+  onFirstKey?: (targetAt: number, firedAt: number) => void,
+) {
+  const timeline = getStepTimeline(steps);
+  if (timeline.length === 0) {
+    return;
+  }
+  const groups = new Map<number, typeof timeline>();
+  for (const step of timeline) {
+    groups.set(step.atMs, [...(groups.get(step.atMs) ?? []), step]);
+  }
+  const firstAtMs = timeline[0].atMs;
+  const endAtMs = getSequenceDurationMs(steps);
+  const run: SequenceRun = { timers: new Set(), heldKeys: new Set() };
+  activeRuns.add(run);
+
+  for (const [atMs, group] of groups) {
+    const timer = setTimeout(() => {
+      run.timers.delete(timer);
+      if (atMs === firstAtMs) {
+        onFirstKey?.(startAt + atMs, performance.timeOrigin + performance.now());
+      }
+      try {
+        for (const step of group) {
+          if (step.type === 'tap') {
+            input.keyTap(step.key);
+          } else {
+            input.keyToggle(step.key, step.type === 'keydown' ? 'down' : 'up');
+            if (step.type === 'keydown') {
+              run.heldKeys.add(step.key);
+            } else {
+              run.heldKeys.delete(step.key);
+            }
+          }
+        }
+      } catch (error) {
+        // robotjs throws on key names it doesn't know
+        onError(`Sequence step failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }, Math.max(0, startAt + atMs - Date.now()));
+    run.timers.add(timer);
+  }
+
+  // Scheduled last so it fires after any key group sharing its time
+  const endTimer = setTimeout(() => {
+    run.timers.delete(endTimer);
+    releaseHeldKeys(input, run);
+    activeRuns.delete(run);
+  }, Math.max(0, startAt + endAtMs - Date.now()));
+  run.timers.add(endTimer);
+}
+
+// Drop every scheduled step (raid reset, disconnect) and let go of held keys
+export function cancelSequences(input: KeyInput | null) {
+  for (const run of activeRuns) {
+    for (const timer of run.timers) {
+      clearTimeout(timer);
+    }
+    if (input) {
+      releaseHeldKeys(input, run);
+    }
+  }
+  activeRuns.clear();
+}
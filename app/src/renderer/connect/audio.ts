@@ -0,0 +1,199 @@
+// Audio cues for players who can't watch the overlay. Tones are synthesized with Web Audio
+// and scheduled on the audio clock against the synced start time, so they land on the
+// second rather than on the next timer tick. Voice call-outs use an offline speech voice
+// when one is installed; speech engines add their own latency, so those are approximate.
+
+export type AudioCueId = 'tick' | 'start' | 'allReady' | 'travel' | 'reset' | 'voice';
+
+export const AUDIO_CUE_IDS: AudioCueId[] = ['tick', 'start', 'allReady', 'travel', 'reset', 'voice'];
+
+export const AUDIO_CUE_LABELS: Record<AudioCueId, string> = {
+  tick: 'Countdown ticks',
+  start: "Starter's action",
+  allReady: 'Everyone ready',
+  travel: 'Travel mode',
+  reset: 'Reset',
+  voice: 'Voice call-outs',
+};
+
+export interface AudioCueSetting {
+  enabled: boolean;
+  volume: number; // 0..1
+}
+
+export type AudioCueSettings = Record<AudioCueId, AudioCueSetting>;
+
+const DEFAULT_VOLUME = 0.7;
+
+export function getDefaultAudioCueSettings(): AudioCueSettings {
+  const settings = {} as AudioCueSettings;
+  for (const id of AUDIO_CUE_IDS) {
+    settings[id] = { enabled: false, volume: DEFAULT_VOLUME };
+  }
+  return settings;
+}
+
+// Validate settings read from storage; anything unusable falls back to the default
+export function normalizeAudioCueSettings(value: unknown): AudioCueSettings {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, { enabled?: unknown; volume?: unknown } | undefined>;
+  const settings = getDefaultAudioCueSettings();
+  for (const id of AUDIO_CUE_IDS) {
+    const cue = stored[id];
+    const volume = Number(cue?.volume);
+    settings[id] = {
+      enabled: cue?.enabled === true,
+      volume: Number.isFinite(volume) ? Math.min(1, Math.max(0, volume)) : DEFAULT_VOLUME,
+    };
+  }
+  return settings;
+}
+
+type ToneCueId = Exclude<AudioCueId, 'voice'>;
+
+interface Tone {
+  freq: number;
+  offsetMs: number;
+  durationMs: number;
+}
+
+const TONES: Record<ToneCueId, Tone[]> = {
+  tick: [{ freq: 880, offsetMs: 0, durationMs: 70 }],
+  // Two notes at once so it can't be mistaken for a tick
+  start: [{ freq: 1320, offsetMs: 0, durationMs: 320 }, { freq: 1760, offsetMs: 0, durationMs: 320 }],
+  allReady: [{ freq: 660, offsetMs: 0, durationMs: 110 }, { freq: 990, offsetMs: 120, durationMs: 160 }],
+  travel: [
+    { freq: 523, offsetMs: 0, durationMs: 100 },
+    { freq: 784, offsetMs: 110, durationMs: 100 },
+    { freq: 1047, offsetMs: 220, durationMs: 180 },
+  ],
+  reset: [{ freq: 660, offsetMs: 0, durationMs: 120 }, { freq: 440, offsetMs: 130, durationMs: 220 }],
+};
+
+const PEAK_GAIN = 0.4;
+// A countdown message arrives a little after its timestamp; a tick this late still plays
+const LATE_TOLERANCE_MS = 250;
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+
+export interface CuePlayer {
+  setSettings: (settings: AudioCueSettings) => void;
+  // Local times: a tick (and call-out) for each second left, then the cue at the start
+  scheduleCountdown: (startsAt: number, endsAt: number) => void;
+  scheduleStart: (at: number) => void;
+  play: (cue: 'allReady' | 'travel' | 'reset') => void;
+  // Plays a cue whether or not it is enabled, for the settings screen
+  preview: (cue: AudioCueId) => void;
+  cancel: () => void;
+  hasOfflineVoice: () => boolean;
+}
+
+export function createCuePlayer(initial: AudioCueSettings): CuePlayer {
+  let settings = initial;
+  let context: AudioContext | null = null;
+  const oscillators = new Set<OscillatorNode>();
+  const speechTimers = new Set<ReturnType<typeof setTimeout>>();
+  // Chromium only starts loading voices on the first request
+  window.speechSynthesis.getVoices();
+
+  const getContext = (): AudioContext => {
+    context ??= new AudioContext();
+    if (context.state === 'suspended') {
+      void context.resume();
+    }
+    return context;
+  };
+
+  const playTones = (cue: ToneCueId, at: number, volume: number) => {
+    const ctx = getContext();
+    // Map this machine's clock onto the audio clock once, so every note shares the same base
+    const base = ctx.currentTime + Math.max(0, at - Date.now()) / 1000;
+    for (const tone of TONES[cue]) {
+      const start = base + tone.offsetMs / 1000;
+      const end = start + tone.durationMs / 1000;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.frequency.value = tone.freq;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(PEAK_GAIN * volume, start + 0.005);
+      gain.gain.exponentialRampToValueAtTime(0.0001, end);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.addEventListener('ended', () => oscillators.delete(oscillator));
+      oscillators.add(oscillator);
+      oscillator.start(start);
+      oscillator.stop(end);
+    }
+  };
+
+  const getOfflineVoice = (): SpeechSynthesisVoice | null => {
+    const voices = window.speechSynthesis.getVoices().filter((voice) => voice.localService);
+    return voices.find((voice) => voice.lang.startsWith('en')) ?? voices[0] ?? null;
+  };
+
+  const speak = (text: string, at: number, volume: number) => {
+    const voice = getOfflineVoice();
+    if (!voice) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      speechTimers.delete(timer);
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.voice = voice;
+      utterance.volume = volume;
+      utterance.rate = 1.3;
+      window.speechSynthesis.speak(utterance);
+    }, Math.max(0, at - Date.now()));
+    speechTimers.add(timer);
+  };
+
+  const cue = (id: ToneCueId, at: number) => {
+    if (settings[id].enabled) {
+      playTones(id, at, settings[id].volume);
+    }
+  };
+
+  const callOut = (text: string, at: number) => {
+    if (settings.voice.enabled) {
+      speak(text, at, settings.voice.volume);
+    }
+  };
+
+  return {
+    setSettings: (next) => {
+      settings = next;
+    },
+    scheduleCountdown: (startsAt, endsAt) => {
+      const now = Date.now();
+      for (let secondsLeft = Math.ceil((endsAt - startsAt) / 1000); secondsLeft >= 1; secondsLeft -= 1) {
+        const at = endsAt - secondsLeft * 1000;
+        if (at < now - LATE_TOLERANCE_MS) {
+          continue;
+        }
+        cue('tick', at);
+        callOut(NUMBER_WORDS[secondsLeft] ?? String(secondsLeft), at);
+      }
+    },
+    scheduleStart: (at) => {
+      cue('start', at);
+      callOut('go', at);
+    },
+    play: (id) => cue(id, Date.now()),
+    preview: (id) => {
+      if (id === 'voice') {
+        speak('three, two, one, go', Date.now(), settings.voice.volume);
+      } else {
+        playTones(id, Date.now(), settings[id].volume);
+      }
+    },
+    cancel: () => {
+      for (const oscillator of oscillators) {
+        oscillator.stop();
+      }
+      oscillators.clear();
+      for (const timer of speechTimers) {
+        clearTimeout(timer);
+      }
+      speechTimers.clear();
+      window.speechSynthesis.cancel();
+    },
+    hasOfflineVoice: () => getOfflineVoice() !== null,
+  };
+}
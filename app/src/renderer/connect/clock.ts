@@ -0,0 +1,75 @@
+// NTP-style estimate of the offset between the server clock and this machine's clock.
+// Each ping/pong exchange gives one sample; samples with a lower round trip are trusted more
+// because the unknown one-way asymmetry is bounded by the RTT.
+
+export interface ClockSample {
+  offset: number; // serverTime - localTime, in ms
+  rtt: number;
+  receivedAt: number;
+}
+
+export interface ClockOffsetEstimator {
+  addSample: (clientSendTime: number, serverTime: number, clientReceiveTime: number) => void;
+  getOffset: () => number;
+  getRtt: () => number | null;
+  hasSamples: () => boolean;
+  serverToLocal: (serverTime: number) => number;
+  reset: () => void;
+}
+
+const MAX_SAMPLES = 16;
+
+export function createClockOffsetEstimator(maxSamples = MAX_SAMPLES): ClockOffsetEstimator {
+  let samples: ClockSample[] = [];
+  let offset = 0;
+
+  function recompute() {
+    let weightedSum = 0;
+    let weightTotal = 0;
+    for (const sample of samples) {
+      // +1 keeps a 0 ms localhost RTT from producing an infinite weight
+      const weight = 1 / ((sample.rtt + 1) * (sample.rtt + 1));
+      weightedSum += sample.offset * weight;
+      weightTotal += weight;
+    }
+    offset = weightTotal > 0 ? weightedSum / weightTotal : 0;
+  }
+
+  function addSample(clientSendTime: number, serverTime: number, clientReceiveTime: number) {
+    const rtt = clientReceiveTime - clientSendTime;
+    if (!Number.isFinite(rtt) || rtt < 0 || !Number.isFinite(serverTime)) {
+      return;
+    }
+    // Assume the server stamped its time halfway through the round trip
+    samples.push({
+      offset: serverTime - (clientSendTime + rtt / 2),
+      rtt,
+      receivedAt: clientReceiveTime,
+    });
+    if (samples.length > maxSamples) {
+      samples = samples.slice(samples.length - maxSamples);
+    }
+    recompute();
+  }
+
+  function getRtt(): number | null {
+    if (samples.length === 0) {
+      return null;
+    }
+    return Math.min(...samples.map((s) => s.rtt));
+  }
+
+  function reset() {
+    samples = [];
+    offset = 0;
+  }
+
+  return {
+    addSample,
+    getOffset: () => offset,
+    getRtt,
+    hasSamples: () => samples.length > 0,
+    serverToLocal: (serverTime: number) => serverTime - offset,
+    reset,
+  };
+}
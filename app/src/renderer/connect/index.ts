@@ -1,34 +1,35 @@
 import { ipcRenderer } from 'electron';
-
-interface WSMessage {
-  type: string;
-  [key: string]: unknown;
-}
-
-interface ReadyStateMessage extends WSMessage {
-  type: 'ready_state';
-  agents: Record<number, boolean>;
-  names?: Record<number, string>;
-}
-
-interface AgentAssignedMessage extends WSMessage {
-  type: 'agent_assigned';
-  agentId: number;
-  agents: Record<number, boolean>;
-  names?: Record<number, string>;
-}
-
-interface StartMessage extends WSMessage {
-  type: 'start';
-  timestamp: number;
-  starterAgentId: number;
-}
-
-interface CountdownMessage extends WSMessage {
-  type: 'countdown';
-  timestamp: number;
-  duration: number;
-}
+import { AGENT_COLORS, DEFAULT_LOBBY_SETTINGS, PROTOCOL_VERSION, parseServerMessage } from 'shd-overlay-protocol';
+import type {
+  AgentColor,
+  ClientMessage,
+  ErrorCode,
+  ErrorMessage,
+  LobbyPolicy,
+  LobbySettings,
+  PongMessage,
+  ServerMessage,
+} from 'shd-overlay-protocol';
+import { INPUT_BACKEND_PREFERENCES } from '../../shared/input';
+import type { InputBackendPreference, InputBackendStatus } from '../../shared/input';
+import { getSequenceDurationMs, MAX_SEQUENCE_STEPS, MAX_WAIT_MS, normalizeSequence, SEQUENCE_SLOTS } from '../../shared/sequences';
+import type {
+  ActionFiredEvent,
+  ActionSequence,
+  ResolvedSequences,
+  SequenceAssignments,
+  SequenceSlot,
+  SequenceStep,
+} from '../../shared/sequences';
+import { toWebSocketUrl } from '../../shared/servers';
+import type { ServerProfile, ServerTestResult } from '../../shared/servers';
+import { AGENT_COLOR_LABELS, DEFAULT_OVERLAY_THEME, getAgentColorHex, isOverlayThemeId } from '../../shared/themes';
+import type { OverlayThemeId } from '../../shared/themes';
+import { AUDIO_CUE_IDS, AUDIO_CUE_LABELS, createCuePlayer, normalizeAudioCueSettings } from './audio';
+import type { AudioCueSettings } from './audio';
+import { createClockOffsetEstimator } from './clock';
+import { PRACTICE_AGENT_ID, startPracticeLobby } from './practice';
+import type { PracticeLobby } from './practice';
 
 // Detect dev mode: when running via `electron .`, execPath points to the
 // electron binary (e.g. electron.exe). When packaged, it's the app's own exe.
@@ -37,12 +38,35 @@ const isDev =
   process.env.NODE_ENV === 'development' ||
   process.env.ELECTRON_IS_DEV === 'true';
 
-const SERVER_URL = isDev ? 'ws://localhost:3001/ws' : 'wss://shd-overlay-server.fly.dev/ws';
+const APP_VERSION = ipcRenderer.sendSync('get-app-version') as string;
+
+// Always offered and not editable; user profiles are stored alongside
+const BUILT_IN_SERVER_PROFILES: ServerProfile[] = [
+  { id: 'official', name: 'Official', url: 'wss://shd-overlay-server.fly.dev/ws' },
+  { id: 'local', name: 'Local (dev)', url: 'ws://localhost:3001/ws' },
+];
+const DEFAULT_SERVER_PROFILE_ID = isDev ? 'local' : 'official';
 
 // DOM elements
 const nameInput = document.getElementById('nameInput') as HTMLInputElement;
+const serverSelect = document.getElementById('serverSelect') as HTMLSelectElement;
+const manageServersBtn = document.getElementById('manageServersBtn') as HTMLButtonElement;
+const serversStep = document.getElementById('serversStep') as HTMLDivElement;
+const serversBackBtn = document.getElementById('serversBackBtn') as HTMLButtonElement;
+const serverProfileSelect = document.getElementById('serverProfileSelect') as HTMLSelectElement;
+const newServerBtn = document.getElementById('newServerBtn') as HTMLButtonElement;
+const deleteServerBtn = document.getElementById('deleteServerBtn') as HTMLButtonElement;
+const serverNameInput = document.getElementById('serverNameInput') as HTMLInputElement;
+const serverUrlInput = document.getElementById('serverUrlInput') as HTMLInputElement;
+const serverRoomInput = document.getElementById('serverRoomInput') as HTMLInputElement;
+const serverTokenInput = document.getElementById('serverTokenInput') as HTMLInputElement;
+const testServerBtn = document.getElementById('testServerBtn') as HTMLButtonElement;
+const serverTestResult = document.getElementById('serverTestResult') as HTMLDivElement;
+const saveServerBtn = document.getElementById('saveServerBtn') as HTMLButtonElement;
+const roomInput = document.getElementById('roomInput') as HTMLInputElement;
+const roomCodeBtn = document.getElementById('roomCodeBtn') as HTMLButtonElement;
 const joinBtn = document.getElementById('joinBtn') as HTMLButtonElement;
-const delayInput = document.getElementById('startDelay') as HTMLInputElement;
+const rollOffsetInput = document.getElementById('rollOffset') as HTMLInputElement;
 const resetRaidBtn = document.getElementById('resetRaidBtn') as HTMLButtonElement;
 const nameStep = document.getElementById('nameStep') as HTMLDivElement;
 const settingsStep = document.getElementById('settingsStep') as HTMLDivElement;
@@ -52,16 +76,62 @@ const fabContainer = document.getElementById('fabContainer') as HTMLDivElement;
 const fabBtn = document.getElementById('fabBtn') as HTMLButtonElement;
 const fabMenu = document.getElementById('fabMenu') as HTMLDivElement;
 const editKeybindsBtn = document.getElementById('editKeybindsBtn') as HTMLButtonElement;
+const editSequencesBtn = document.getElementById('editSequencesBtn') as HTMLButtonElement;
+const sequencesStep = document.getElementById('sequencesStep') as HTMLDivElement;
+const soundsStep = document.getElementById('soundsStep') as HTMLDivElement;
+const soundsBackBtn = document.getElementById('soundsBackBtn') as HTMLButtonElement;
+const soundsMenuBtn = document.getElementById('soundsMenuBtn') as HTMLButtonElement;
+const audioCueList = document.getElementById('audioCueList') as HTMLDivElement;
+const audioVoiceHint = document.getElementById('audioVoiceHint') as HTMLParagraphElement;
+const sequencesBackBtn = document.getElementById('sequencesBackBtn') as HTMLButtonElement;
+const sequenceSelect = document.getElementById('sequenceSelect') as HTMLSelectElement;
+const newSequenceBtn = document.getElementById('newSequenceBtn') as HTMLButtonElement;
+const deleteSequenceBtn = document.getElementById('deleteSequenceBtn') as HTMLButtonElement;
+const sequenceEditor = document.getElementById('sequenceEditor') as HTMLDivElement;
+const sequenceNameInput = document.getElementById('sequenceNameInput') as HTMLInputElement;
+const sequenceStepsList = document.getElementById('sequenceSteps') as HTMLDivElement;
+const addStepBtn = document.getElementById('addStepBtn') as HTMLButtonElement;
+const sequenceDuration = document.getElementById('sequenceDuration') as HTMLSpanElement;
+const saveSequencesBtn = document.getElementById('saveSequencesBtn') as HTMLButtonElement;
+const assignmentSelects: Record<SequenceSlot, HTMLSelectElement> = {
+  starter: document.getElementById('assignStarterSelect') as HTMLSelectElement,
+  follower: document.getElementById('assignFollowerSelect') as HTMLSelectElement,
+  travel: document.getElementById('assignTravelSelect') as HTMLSelectElement,
+};
+const practiceMenuBtn = document.getElementById('practiceMenuBtn') as HTMLButtonElement;
+const editOverlayLayoutBtn = document.getElementById('editOverlayLayoutBtn') as HTMLButtonElement;
+const practiceStep = document.getElementById('practiceStep') as HTMLDivElement;
+const practiceBackBtn = document.getElementById('practiceBackBtn') as HTMLButtonElement;
+const practiceRoleSelect = document.getElementById('practiceRoleSelect') as HTMLSelectElement;
+const practiceBotsInput = document.getElementById('practiceBotsInput') as HTMLInputElement;
+const practiceHint = document.getElementById('practiceHint') as HTMLParagraphElement;
+const practiceStartBtn = document.getElementById('practiceStartBtn') as HTMLButtonElement;
+const practiceReadyBtn = document.getElementById('practiceReadyBtn') as HTMLButtonElement;
+const practiceStatus = document.getElementById('practiceStatus') as HTMLDivElement;
+const practiceResult = document.getElementById('practiceResult') as HTMLDivElement;
 const keybindsSettingsStep = document.getElementById('keybindsSettingsStep') as HTMLDivElement;
 const keybindsSettingsBackBtn = document.getElementById('keybindsSettingsBackBtn') as HTMLButtonElement;
 const saveKeybindsBtn = document.getElementById('saveKeybindsBtn') as HTMLButtonElement;
 const keybindReadyBtn = document.getElementById('keybindReady') as HTMLButtonElement;
 const keybindStartBtn = document.getElementById('keybindStart') as HTMLButtonElement;
 const keybindTestRollBtn = document.getElementById('keybindTestRoll') as HTMLButtonElement;
+const inputBackendSelect = document.getElementById('inputBackendSelect') as HTMLSelectElement;
+const inputBackendStatus = document.getElementById('inputBackendStatus') as HTMLDivElement;
 const readyBtn = document.getElementById('readyBtn') as HTMLButtonElement;
 const readySection = document.getElementById('readySection') as HTMLDivElement;
 const postRaidSection = document.getElementById('postRaidSection') as HTMLDivElement;
 const travelBtn = document.getElementById('travelBtn') as HTMLButtonElement;
+const splitBtn = document.getElementById('splitBtn') as HTMLButtonElement;
+const finishBtn = document.getElementById('finishBtn') as HTMLButtonElement;
+const runStatus = document.getElementById('runStatus') as HTMLDivElement;
+const leaderText = document.getElementById('leaderText') as HTMLSpanElement;
+const squadList = document.getElementById('squadList') as HTMLDivElement;
+const colorPicker = document.getElementById('colorPicker') as HTMLDivElement;
+const leaderControls = document.getElementById('leaderControls') as HTMLDivElement;
+const leaderOnlyToggle = document.getElementById('leaderOnlyToggle') as HTMLInputElement;
+const transferLeaderSelect = document.getElementById('transferLeaderSelect') as HTMLSelectElement;
+const countdownSecondsInput = document.getElementById('countdownSeconds') as HTMLInputElement;
+const starterOffsetInput = document.getElementById('starterOffset') as HTMLInputElement;
 const autoRollToggle = document.getElementById('autoRollToggle') as HTMLInputElement;
 const autoStartToggle = document.getElementById('autoStartToggle') as HTMLInputElement;
 
@@ -75,41 +145,157 @@ const connectionStatus = document.getElementById('connectionStatus') as HTMLDivE
 const connectionText = document.getElementById('connectionText') as HTMLSpanElement;
 
 const KEYBINDS_STORAGE_KEY = 'shd-keybinds';
+const SEQUENCES_STORAGE_KEY = 'shd-sequences';
+const AUDIO_CUES_STORAGE_KEY = 'shd-audio-cues';
+const SERVER_PROFILES_STORAGE_KEY = 'shd-server-profiles';
+const ACTIVE_SERVER_STORAGE_KEY = 'shd-server-profile';
 
 interface KeybindsConfig {
   ready: string;
   start: string;
   testRoll: string;
-  rollDelaySeconds: number;
+  rollOffsetMs: number; // when this agent rolls, relative to the starter's action
   rollKey: string;
+  inputBackend: InputBackendPreference;
 }
 
 const DEFAULT_KEYBINDS: KeybindsConfig = {
   ready: 'CommandOrControl+Shift+R',
   start: 'CommandOrControl+Shift+S',
   testRoll: 'CommandOrControl+Shift+K',
-  rollDelaySeconds: 2.9,
+  rollOffsetMs: -100,
   rollKey: 'space',
+  inputBackend: 'auto',
+};
+
+interface SequencesConfig {
+  sequences: ActionSequence[];
+  assignments: SequenceAssignments;
+}
+
+const BUILT_IN_ACTION_LABELS: Record<SequenceSlot, string> = {
+  starter: 'Default (tap space)',
+  follower: 'Default (double-tap roll key)',
+  travel: 'Default (tap space)',
+};
+
+const STEP_TYPE_LABELS: Record<SequenceStep['type'], string> = {
+  keydown: 'Key down',
+  keyup: 'Key up',
+  tap: 'Tap',
+  wait: 'Wait',
+};
+
+// robotjs key names for KeyboardEvent.key values that don't just lowercase into one
+const ROBOT_KEY_NAMES: Record<string, string> = {
+  ' ': 'space',
+  'Control': 'control',
+  'Shift': 'shift',
+  'Alt': 'alt',
+  'Meta': 'command',
+  'ArrowUp': 'up',
+  'ArrowDown': 'down',
+  'ArrowLeft': 'left',
+  'ArrowRight': 'right',
+  'Escape': 'escape',
+  'Enter': 'enter',
+  'Backspace': 'backspace',
+  'Tab': 'tab',
+  'Delete': 'delete',
+  'CapsLock': 'capslock',
 };
 
 let ws: WebSocket | null = null;
+let serverProfiles: ServerProfile[] = [];
+let activeServerId = DEFAULT_SERVER_PROFILE_ID;
+// The profile open in the server editor; null while creating a new one
+let editingServerId: string | null = null;
 let agentId: number | null = null;
 let isReady = false;
 let selectedName: string | null = null;
-let startDelayMs = 2000;
+let roomCode: string | null = null;
+// Issued by the server on assignment; presented on reconnect to get the same agent slot back
+let resumeToken: string | null = null;
+let rollOffsetMs = DEFAULT_KEYBINDS.rollOffsetMs;
+let lobbySettings: LobbySettings = { ...DEFAULT_LOBBY_SETTINGS };
 let hasConfirmedName = false;
 let namesByAgent: Record<number, string> = {};
+let colorsByAgent: Record<number, AgentColor | null> = {};
+// The colour we ask for on joining; null takes whatever the server hands out
+let preferredColor: AgentColor | null = null;
+// Set by the overlay layout editor; agents are shown in this theme's palette
+let overlayTheme: OverlayThemeId = DEFAULT_OVERLAY_THEME;
 let intentionalDisconnect = false;
 let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 let raidState: 'ready' | 'started' = 'ready';
 let countdownEndTimer: ReturnType<typeof setTimeout> | null = null;
+let clockSyncTimer: ReturnType<typeof setTimeout> | null = null;
+let clockPongCount = 0;
 let travelMode = false;
+let leaderId: number | null = null;
+let lobbyPolicy: LobbyPolicy = 'anyone';
+// Working copy while the sequence editor is open; only saved on "Save Sequences"
+let editingSequences: ActionSequence[] = [];
+let editingSequenceId: string | null = null;
+let practice: PracticeLobby | null = null;
+let practiceReady = false;
+let practiceFinished = false;
+// Set between the practice start and our key press being reported by the main process
+let practicePending: {
+  slot: SequenceSlot;
+  starterActionAt: number;
+  timeout: ReturnType<typeof setTimeout>;
+} | null = null;
+let audioCues: AudioCueSettings = loadAudioCueSettings();
+const cuePlayer = createCuePlayer(audioCues);
+// Whether the all-ready cue has played since someone was last unready
+let allReadyCued = false;
 let autoRollEnabled = localStorage.getItem('shd-auto-roll') !== 'false';
 let autoStartEnabled = localStorage.getItem('shd-auto-start') !== 'false';
 
-const DEFAULT_START_DELAY_SECONDS = 2.9;
-const STARTER_DELAY_MS = 3000; // Starter always acts at exactly 3 seconds
-const START_DELAY_STORAGE_KEY = 'shd-start-delay-seconds';
+// Before lobby settings, the starter always acted 3 s after the countdown began and the roll
+// delay was stored as an absolute time; used to migrate saved delays to offsets
+const LEGACY_STARTER_DELAY_MS = 3000;
+const ROOM_CODE_STORAGE_KEY = 'shd-room-code';
+const AGENT_COLOR_STORAGE_KEY = 'shd-agent-color';
+// Give up on a practice press this long after the starter's action
+const PRACTICE_RESULT_TIMEOUT_MS = 10000;
+
+// Friendlier banner text for server error codes; anything else shows the server's message
+const ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  INVALID_ROOM_CODE: 'That room code is invalid. Use 3-16 letters or digits.',
+  ROOM_FULL: 'That room is full. Try another room code.',
+  NOT_ASSIGNED: 'You are not in a room. Join one to continue.',
+  NOT_ALL_READY: 'Everyone must be Ready before the run can start.',
+  NOT_IN_TRAVEL_MODE: 'Travel was already executed or reset.',
+  UNAUTHORIZED: 'The server rejected the access token. Check the server profile.',
+  NOT_LEADER: 'Only the lobby leader can do that.',
+  INVALID_SETTINGS: 'Countdown must be 1-30 s and the starter offset -1000 to 10000 ms.',
+  NO_ACTIVE_RUN: 'No run is in progress. Start one first.',
+};
+
+// Clock sync: a quick burst on connect to get a usable estimate, then a slow refresh
+const CLOCK_SYNC_BURST_SAMPLES = 8;
+const CLOCK_SYNC_BURST_INTERVAL_MS = 250;
+const CLOCK_SYNC_REFRESH_INTERVAL_MS = 15000;
+
+const clock = createClockOffsetEstimator();
+
+// m:ss.mmm, or h:mm:ss.mmm for long runs
+function formatRunTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  const millis = String(Math.floor(ms % 1000)).padStart(3, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}.${millis}`
+    : `${minutes}:${seconds}.${millis}`;
+}
+
+function setRunStatus(text: string) {
+  runStatus.textContent = text;
+}
 
 function updateConnectionIndicator(status: 'connected' | 'disconnected' | 'connecting', message: string) {
   if (connectionStatus && connectionText) {
@@ -126,32 +312,50 @@ function updateStatus(status: 'connected' | 'disconnected' | 'connecting', _mess
     connecting: 'Connecting...',
   };
   updateConnectionIndicator(status, statusLabels[status] ?? _message);
+  // Practice works without a server, so reconnect attempts mustn't navigate away from it;
+  // nor from the server editor, which reconnects on its own when saved
+  const keepView = !practiceStep.classList.contains('hidden') || !serversStep.classList.contains('hidden');
 
   if (status === 'connected') {
-    if (hasConfirmedName) {
-      nameStep.classList.add('hidden');
-      settingsStep.classList.remove('hidden');
-      keybindsSettingsStep.classList.add('hidden');
-      document.body.classList.add('settings-view');
-      updateWelcomeText();
-    } else {
+    if (!keepView) {
+      if (hasConfirmedName) {
+        nameStep.classList.add('hidden');
+        settingsStep.classList.remove('hidden');
+        keybindsSettingsStep.classList.add('hidden');
+        sequencesStep.classList.add('hidden');
+        soundsStep.classList.add('hidden');
+        document.body.classList.add('settings-view');
+        updateWelcomeText();
+      } else {
+        nameStep.classList.remove('hidden');
+        settingsStep.classList.add('hidden');
+        keybindsSettingsStep.classList.add('hidden');
+        sequencesStep.classList.add('hidden');
+        soundsStep.classList.add('hidden');
+        document.body.classList.remove('settings-view');
+      }
+      fabContainer.classList.remove('hidden');
+      closeFabMenu();
+    }
+  } else {
+    if (!keepView) {
       nameStep.classList.remove('hidden');
       settingsStep.classList.add('hidden');
       keybindsSettingsStep.classList.add('hidden');
-      document.body.classList.remove('settings-view');
+      sequencesStep.classList.add('hidden');
+      soundsStep.classList.add('hidden');
+      document.body.classList.remove('settings-view', 'keybinds-settings-view', 'sequences-view', 'sounds-view');
+      fabContainer.classList.remove('hidden');
+      closeFabMenu();
     }
-    fabContainer.classList.remove('hidden');
-    closeFabMenu();
-  } else {
-    nameStep.classList.remove('hidden');
-    settingsStep.classList.add('hidden');
-    keybindsSettingsStep.classList.add('hidden');
-    document.body.classList.remove('settings-view', 'keybinds-settings-view');
-    fabContainer.classList.remove('hidden');
-    closeFabMenu();
     hasConfirmedName = false;
     namesByAgent = {};
+    colorsByAgent = {};
+    renderSquad();
     selectedName = null;
+    resumeToken = null;
+    setRoomCode(null);
+    updateLeader(null, 'anyone');
   }
   updateSettingsState();
 }
@@ -166,8 +370,11 @@ function loadKeybinds(): KeybindsConfig {
         ready: String((parsed as KeybindsConfig).ready || DEFAULT_KEYBINDS.ready),
         start: String((parsed as KeybindsConfig).start || DEFAULT_KEYBINDS.start),
         testRoll: String((parsed as KeybindsConfig).testRoll || DEFAULT_KEYBINDS.testRoll),
-        rollDelaySeconds: Number((parsed as KeybindsConfig).rollDelaySeconds) || DEFAULT_KEYBINDS.rollDelaySeconds,
+        rollOffsetMs: loadRollOffsetMs(parsed),
         rollKey: String((parsed as KeybindsConfig).rollKey || DEFAULT_KEYBINDS.rollKey),
+        inputBackend: INPUT_BACKEND_PREFERENCES.includes((parsed as KeybindsConfig).inputBackend)
+          ? (parsed as KeybindsConfig).inputBackend
+          : DEFAULT_KEYBINDS.inputBackend,
       };
     }
   } catch {
@@ -176,6 +383,18 @@ function loadKeybinds(): KeybindsConfig {
   return { ...DEFAULT_KEYBINDS };
 }
 
+function loadRollOffsetMs(stored: object): number {
+  const offset = Number((stored as { rollOffsetMs?: unknown }).rollOffsetMs);
+  if ('rollOffsetMs' in stored && Number.isFinite(offset)) {
+    return offset;
+  }
+  const legacySeconds = Number((stored as { rollDelaySeconds?: unknown }).rollDelaySeconds);
+  if (Number.isFinite(legacySeconds) && legacySeconds > 0) {
+    return Math.round(legacySeconds * 1000 - LEGACY_STARTER_DELAY_MS);
+  }
+  return DEFAULT_KEYBINDS.rollOffsetMs;
+}
+
 function saveKeybinds(config: KeybindsConfig): void {
   localStorage.setItem(KEYBINDS_STORAGE_KEY, JSON.stringify(config));
   ipcRenderer.send('keybinds-config', config);
@@ -209,7 +428,7 @@ function formatAcceleratorForDisplay(acc: string): string {
 
 function openKeybindsSettings(): void {
   const config = loadKeybinds();
-  delayInput.value = String(config.rollDelaySeconds);
+  setRollOffsetMs(config.rollOffsetMs);
   keybindReadyBtn.textContent = formatAcceleratorForDisplay(config.ready);
   keybindStartBtn.textContent = formatAcceleratorForDisplay(config.start);
   keybindTestRollBtn.textContent = formatAcceleratorForDisplay(config.testRoll);
@@ -219,6 +438,7 @@ function openKeybindsSettings(): void {
   const rollKeyBtn = document.getElementById('keybindRollKey') as HTMLButtonElement;
   rollKeyBtn.textContent = config.rollKey;
   rollKeyBtn.dataset.key = config.rollKey;
+  inputBackendSelect.value = config.inputBackend;
 
   nameStep.classList.add('hidden');
   settingsStep.classList.add('hidden');
@@ -287,22 +507,301 @@ function setupKeybindCapture(btn: HTMLButtonElement, key: keyof Pick<KeybindsCon
 }
 
 function saveKeybindsSettings(): void {
-  const rollDelaySeconds = getDelaySeconds();
+  const offsetMs = getRollOffsetMs();
   const rollKeyBtn = document.getElementById('keybindRollKey') as HTMLButtonElement;
   const config: KeybindsConfig = {
     ready: keybindReadyBtn.dataset.accelerator || DEFAULT_KEYBINDS.ready,
     start: keybindStartBtn.dataset.accelerator || DEFAULT_KEYBINDS.start,
     testRoll: keybindTestRollBtn.dataset.accelerator || DEFAULT_KEYBINDS.testRoll,
-    rollDelaySeconds,
+    rollOffsetMs: offsetMs,
     rollKey: rollKeyBtn.dataset.key || DEFAULT_KEYBINDS.rollKey,
+    inputBackend: inputBackendSelect.value as InputBackendPreference,
   };
   saveKeybinds(config);
-  setDelaySeconds(rollDelaySeconds);
-  startDelayMs = rollDelaySeconds * 1000;
-  localStorage.setItem(START_DELAY_STORAGE_KEY, String(rollDelaySeconds));
+  setRollOffsetMs(offsetMs);
+  rollOffsetMs = offsetMs;
   closeKeybindsSettings();
 }
 
+function loadSequencesConfig(): SequencesConfig {
+  const config: SequencesConfig = { sequences: [], assignments: { starter: null, follower: null, travel: null } };
+  try {
+    const stored = localStorage.getItem(SEQUENCES_STORAGE_KEY);
+    if (!stored) return config;
+    const parsed = JSON.parse(stored) as { sequences?: unknown; assignments?: Partial<Record<SequenceSlot, unknown>> };
+    if (Array.isArray(parsed.sequences)) {
+      config.sequences = parsed.sequences
+        .map(normalizeSequence)
+        .filter((sequence): sequence is ActionSequence => sequence !== null);
+    }
+    for (const slot of SEQUENCE_SLOTS) {
+      const id = parsed.assignments?.[slot];
+      // Assignments to a sequence that no longer exists fall back to the built-in action
+      config.assignments[slot] = config.sequences.some((sequence) => sequence.id === id) ? (id as string) : null;
+    }
+  } catch {
+    /* ignore */
+  }
+  return config;
+}
+
+// The main process only needs the steps each slot runs
+function resolveSequences(config: SequencesConfig): ResolvedSequences {
+  const stepsFor = (slot: SequenceSlot) =>
+    config.sequences.find((sequence) => sequence.id === config.assignments[slot])?.steps ?? null;
+  return { starter: stepsFor('starter'), follower: stepsFor('follower'), travel: stepsFor('travel') };
+}
+
+function saveSequencesConfig(config: SequencesConfig): void {
+  localStorage.setItem(SEQUENCES_STORAGE_KEY, JSON.stringify(config));
+  ipcRenderer.send('sequences-config', resolveSequences(config));
+}
+
+function formatStepOffset(ms: number): string {
+  return `+${(ms / 1000).toFixed(2)} s`;
+}
+
+function getEditingSequence(): ActionSequence | undefined {
+  return editingSequences.find((sequence) => sequence.id === editingSequenceId);
+}
+
+function readAssignments(): SequenceAssignments {
+  const assignments: SequenceAssignments = { starter: null, follower: null, travel: null };
+  for (const slot of SEQUENCE_SLOTS) {
+    const id = assignmentSelects[slot].value;
+    assignments[slot] = editingSequences.some((sequence) => sequence.id === id) ? id : null;
+  }
+  return assignments;
+}
+
+function renderAssignmentSelects(assignments: SequenceAssignments): void {
+  for (const slot of SEQUENCE_SLOTS) {
+    const select = assignmentSelects[slot];
+    select.innerHTML = '';
+    const builtIn = document.createElement('option');
+    builtIn.value = '';
+    builtIn.textContent = BUILT_IN_ACTION_LABELS[slot];
+    select.appendChild(builtIn);
+    for (const sequence of editingSequences) {
+      const option = document.createElement('option');
+      option.value = sequence.id;
+      option.textContent = sequence.name || 'Untitled';
+      select.appendChild(option);
+    }
+    select.value = assignments[slot] ?? '';
+  }
+}
+
+function renderSequencePicker(): void {
+  const assignments = readAssignments();
+  sequenceSelect.innerHTML = '';
+  for (const sequence of editingSequences) {
+    const option = document.createElement('option');
+    option.value = sequence.id;
+    option.textContent = sequence.name || 'Untitled';
+    sequenceSelect.appendChild(option);
+  }
+  sequenceSelect.value = editingSequenceId ?? '';
+  sequenceSelect.disabled = editingSequences.length === 0;
+  deleteSequenceBtn.disabled = editingSequences.length === 0;
+  renderAssignmentSelects(assignments);
+}
+
+function renderSequenceEditor(): void {
+  const sequence = getEditingSequence();
+  sequenceEditor.classList.toggle('hidden', !sequence);
+  if (sequence) {
+    sequenceNameInput.value = sequence.name;
+    renderSequenceSteps();
+  }
+}
+
+function renderSequenceSteps(): void {
+  const sequence = getEditingSequence();
+  sequenceStepsList.innerHTML = '';
+  if (!sequence) return;
+
+  let atMs = 0;
+  sequence.steps.forEach((step, index) => {
+    const row = document.createElement('div');
+    row.className = 'sequence-step';
+
+    const offset = document.createElement('span');
+    offset.className = 'sequence-offset';
+    offset.textContent = formatStepOffset(atMs);
+
+    const typeSelect = document.createElement('select');
+    for (const [type, label] of Object.entries(STEP_TYPE_LABELS)) {
+      const option = document.createElement('option');
+      option.value = type;
+      option.textContent = label;
+      typeSelect.appendChild(option);
+    }
+    typeSelect.value = step.type;
+    typeSelect.addEventListener('change', () => {
+      const type = typeSelect.value as SequenceStep['type'];
+      const key = step.type === 'wait' ? 'space' : step.key;
+      sequence.steps[index] = type === 'wait' ? { type, ms: 100 } : { type, key };
+      renderSequenceSteps();
+    });
+
+    let valueControl: HTMLElement;
+    if (step.type === 'wait') {
+      const msInput = document.createElement('input');
+      msInput.type = 'number';
+      msInput.min = '0';
+      msInput.max = String(MAX_WAIT_MS);
+      msInput.step = '10';
+      msInput.value = String(step.ms);
+      msInput.title = 'Milliseconds';
+      msInput.addEventListener('change', () => {
+        const ms = Number(msInput.value);
+        step.ms = Number.isFinite(ms) ? Math.min(MAX_WAIT_MS, Math.max(0, Math.round(ms))) : step.ms;
+        renderSequenceSteps();
+      });
+      valueControl = msInput;
+    } else {
+      const keyBtn = document.createElement('button');
+      keyBtn.type = 'button';
+      keyBtn.className = 'keybind-input';
+      keyBtn.textContent = step.key;
+      keyBtn.addEventListener('click', () => {
+        captureRobotKey(keyBtn, (key) => {
+          step.key = key;
+        });
+      });
+      valueControl = keyBtn;
+    }
+
+    const upBtn = document.createElement('button');
+    upBtn.type = 'button';
+    upBtn.className = 'small-btn';
+    upBtn.textContent = '↑';
+    upBtn.title = 'Move up';
+    upBtn.disabled = index === 0;
+    upBtn.addEventListener('click', () => {
+      [sequence.steps[index - 1], sequence.steps[index]] = [sequence.steps[index], sequence.steps[index - 1]];
+      renderSequenceSteps();
+    });
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'small-btn';
+    removeBtn.textContent = '×';
+    removeBtn.title = 'Remove step';
+    removeBtn.addEventListener('click', () => {
+      sequence.steps.splice(index, 1);
+      renderSequenceSteps();
+    });
+
+    row.append(offset, typeSelect, valueControl, upBtn, removeBtn);
+    sequenceStepsList.appendChild(row);
+    if (step.type === 'wait') {
+      atMs += step.ms;
+    }
+  });
+
+  if (sequence.steps.length === 0) {
+    const empty = document.createElement('span');
+    empty.className = 'sequence-empty';
+    empty.textContent = 'No steps yet.';
+    sequenceStepsList.appendChild(empty);
+  }
+  sequenceDuration.textContent = `Runs for ${(getSequenceDurationMs(sequence.steps) / 1000).toFixed(2)} s`;
+  addStepBtn.disabled = sequence.steps.length >= MAX_SEQUENCE_STEPS;
+}
+
+function openSequencesSettings(): void {
+  const config = loadSequencesConfig();
+  editingSequences = structuredClone(config.sequences);
+  editingSequenceId = editingSequences[0]?.id ?? null;
+  renderAssignmentSelects(config.assignments);
+  renderSequencePicker();
+  renderSequenceEditor();
+
+  nameStep.classList.add('hidden');
+  settingsStep.classList.add('hidden');
+  sequencesStep.classList.remove('hidden');
+  document.body.classList.remove('settings-view');
+  document.body.classList.add('sequences-view');
+  fabContainer.classList.add('hidden');
+  closeFabMenu();
+}
+
+function closeSequencesSettings(): void {
+  sequencesStep.classList.add('hidden');
+  fabContainer.classList.remove('hidden');
+  document.body.classList.remove('sequences-view');
+  if (hasConfirmedName) {
+    settingsStep.classList.remove('hidden');
+    document.body.classList.add('settings-view');
+  } else {
+    nameStep.classList.remove('hidden');
+  }
+}
+
+function addSequence(): void {
+  const sequence: ActionSequence = {
+    id: `seq-${Date.now().toString(36)}`,
+    name: `Sequence ${editingSequences.length + 1}`,
+    steps: [],
+  };
+  editingSequences.push(sequence);
+  editingSequenceId = sequence.id;
+  renderSequencePicker();
+  renderSequenceEditor();
+}
+
+function deleteSequence(): void {
+  editingSequences = editingSequences.filter((sequence) => sequence.id !== editingSequenceId);
+  editingSequenceId = editingSequences[0]?.id ?? null;
+  renderSequencePicker();
+  renderSequenceEditor();
+}
+
+function saveSequencesSettings(): void {
+  const sequences = editingSequences
+    .map(normalizeSequence)
+    .filter((sequence): sequence is ActionSequence => sequence !== null);
+  saveSequencesConfig({ sequences, assignments: readAssignments() });
+  closeSequencesSettings();
+}
+
+// Record the next key press on `btn` as a robotjs key name (not an accelerator); clicking
+// anywhere else cancels
+function captureRobotKey(btn: HTMLButtonElement, onCaptured: (key: string) => void): void {
+  if (btn.classList.contains('recording')) return;
+  const originalText = btn.textContent ?? '';
+  btn.classList.add('recording');
+  btn.textContent = 'Press a key...';
+
+  function cleanup() {
+    window.removeEventListener('keydown', keyHandler, true);
+    document.removeEventListener('mousedown', cancelHandler, true);
+  }
+
+  const cancelHandler = (e: MouseEvent) => {
+    if (e.target !== btn) {
+      btn.classList.remove('recording');
+      btn.textContent = originalText;
+      cleanup();
+    }
+  };
+
+  const keyHandler = (e: KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const key = ROBOT_KEY_NAMES[e.key] || e.key.toLowerCase();
+    btn.textContent = key;
+    btn.classList.remove('recording');
+    cleanup();
+    onCaptured(key);
+  };
+
+  window.addEventListener('keydown', keyHandler, { capture: true });
+  document.addEventListener('mousedown', cancelHandler, { capture: true });
+}
+
 function setRaidState(state: 'ready' | 'started', options?: { skipOverlay?: boolean }): void {
   raidState = state;
   if (state === 'ready') {
@@ -340,6 +839,90 @@ function toggleFabMenu(): void {
   }
 }
 
+function sendClockPing() {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    sendMessage(ws, { type: 'ping', clientTime: Date.now() });
+  }
+}
+
+function startClockSync() {
+  stopClockSync();
+  clockPongCount = 0;
+  let burstRemaining = CLOCK_SYNC_BURST_SAMPLES;
+  const tick = () => {
+    sendClockPing();
+    burstRemaining -= 1;
+    clockSyncTimer = setTimeout(
+      tick,
+      burstRemaining > 0 ? CLOCK_SYNC_BURST_INTERVAL_MS : CLOCK_SYNC_REFRESH_INTERVAL_MS,
+    );
+  };
+  tick();
+}
+
+function stopClockSync() {
+  if (clockSyncTimer) {
+    clearTimeout(clockSyncTimer);
+    clockSyncTimer = null;
+  }
+}
+
+function handlePong(pong: PongMessage) {
+  if (pong.clientTime === undefined) {
+    return;
+  }
+  clock.addSample(pong.clientTime, pong.timestamp, Date.now());
+  clockPongCount += 1;
+  // Report once the burst has produced a usable estimate, then after every refresh
+  if (clockPongCount >= CLOCK_SYNC_BURST_SAMPLES) {
+    sendClockReport();
+  }
+}
+
+// Share our RTT and clock offset so the squad's overlays can show who is on a bad connection
+function sendClockReport() {
+  const rtt = clock.getRtt();
+  if (!ws || ws.readyState !== WebSocket.OPEN || agentId === null || rtt === null) {
+    return;
+  }
+  sendMessage(ws, { type: 'clock_report', rtt, offset: clock.getOffset() });
+}
+
+function sendMessage(socket: WebSocket, message: ClientMessage) {
+  socket.send(JSON.stringify(message));
+}
+
+// Only version errors end the session; everything else is shown in the banner and the
+// connection stays up
+function handleServerError(error: ErrorMessage) {
+  console.warn('[WS] Server error:', error.code, error.requestType ?? '', error.message);
+  switch (error.code) {
+    case 'INCOMPATIBLE_VERSION':
+    case 'HELLO_REQUIRED':
+      // Reconnecting won't help until the app is updated
+      intentionalDisconnect = true;
+      showError(error.message);
+      updateStatus('disconnected', error.message);
+      break;
+    case 'UNAUTHORIZED':
+      // Nor until the profile's token is fixed; saving the profile reconnects
+      intentionalDisconnect = true;
+      showError(ERROR_MESSAGES.UNAUTHORIZED ?? error.message);
+      updateStatus('disconnected', error.message);
+      break;
+    case 'INVALID_ROOM_CODE':
+    case 'ROOM_FULL':
+    case 'NOT_ASSIGNED':
+      // Back to the name step so a (different) room code can be entered
+      hasConfirmedName = false;
+      updateStatus('connected', 'Connected');
+      showError(ERROR_MESSAGES[error.code] ?? error.message);
+      break;
+    default:
+      showError(ERROR_MESSAGES[error.code] ?? error.message);
+  }
+}
+
 function connect() {
   // Clear any pending reconnect timer to prevent stacking
   if (reconnectTimer) {
@@ -351,19 +934,52 @@ function connect() {
   updateStatus('connecting', 'Connecting...');
 
   try {
-    ws = new WebSocket(SERVER_URL);
+    const profile = getActiveServerProfile();
+    const socket = new WebSocket(profile.url);
+    ws = socket;
 
     ws.onopen = () => {
-      console.log('[WS] Connected');
-      setRaidState('ready');
+      console.log('[WS] Connected to', profile.name);
+      if (ws) {
+        sendMessage(ws, {
+          type: 'hello',
+          protocolVersion: PROTOCOL_VERSION,
+          appVersion: APP_VERSION,
+          ...(profile.token ? { token: profile.token } : {}),
+        });
+      }
+      startClockSync();
+      if (resumeToken && roomCode) {
+        resumeSession(roomCode, resumeToken);
+      } else {
+        setRaidState('ready');
+      }
       updateStatus('connected', 'Connected');
       // Show overlay when connected
       ipcRenderer.send('show-overlay');
     };
 
     ws.onclose = () => {
+      if (ws !== null && ws !== socket) {
+        // Replaced by a connection to another server; that one owns the session now
+        return;
+      }
       console.log('[WS] Disconnected');
       ws = null;
+      stopClockSync();
+      clock.reset();
+
+      if (!intentionalDisconnect && resumeToken) {
+        // Keep the session (name, room, raid state) — the server holds our slot for a
+        // grace period and we reclaim it with the resume token on reconnect
+        updateConnectionIndicator('connecting', 'Reconnecting...');
+        if (hasConfirmedName) {
+          welcomeText.textContent = 'Reconnecting...';
+        }
+        reconnectTimer = setTimeout(connect, 3000);
+        return;
+      }
+
       travelMode = false;
       travelBtn.textContent = 'Travel';
       travelBtn.classList.remove('execute');
@@ -372,6 +988,7 @@ function connect() {
         countdownEndTimer = null;
       }
       setRaidState('ready', { skipOverlay: true });
+      ipcRenderer.send('cancel-actions');
 
       // Reset overlay to clear stale data
       ipcRenderer.send('update-overlay', { type: 'reset' });
@@ -388,49 +1005,91 @@ function connect() {
     };
 
     ws.onerror = (error) => {
+      // onclose always follows and decides between resuming and resetting
       console.error('[WS] Error:', error);
-      updateStatus('disconnected', 'Connection error');
+      updateConnectionIndicator('disconnected', 'Connection error');
     };
 
     ws.onmessage = (event) => {
+      if (ws !== socket) {
+        return;
+      }
       try {
-        const message = JSON.parse(event.data) as WSMessage;
+        const parsed = parseServerMessage(String(event.data));
+        if (!parsed.ok) {
+          console.warn('[WS] Ignoring invalid message:', parsed.reason, event.data);
+          return;
+        }
+        const message = parsed.message;
         console.log('[WS] Received:', message);
+        handleAudioCues(message, (serverTime) => clock.serverToLocal(serverTime));
 
         if (message.type === 'agent_assigned') {
-          const assigned = message as AgentAssignedMessage;
+          const assigned = message;
+          hideError();
           agentId = assigned.agentId;
+          resumeToken = assigned.resumeToken;
+          setRoomCode(assigned.room);
+          if (!assigned.resumed) {
+            // Fresh slot (first join, or the grace window ran out) — drop any stale raid state
+            if (countdownEndTimer) {
+              clearTimeout(countdownEndTimer);
+              countdownEndTimer = null;
+            }
+            setRaidState('ready');
+          }
+          if (assigned.travelMode !== travelMode) {
+            setTravelMode(assigned.travelMode);
+          }
           isReady = assigned.agents[assigned.agentId] ?? false;
           updateNames(assigned.names);
+          updateColors(assigned.colors);
+          updateLeader(assigned.leaderId, assigned.policy);
+          if (preferredColor && assigned.colors[assigned.agentId] !== preferredColor) {
+            sendMessage(ws, { type: 'set_color', color: preferredColor });
+          }
+          applyLobbySettings(assigned.settings);
           updateReadyButton();
+          if (clockPongCount >= CLOCK_SYNC_BURST_SAMPLES) {
+            sendClockReport();
+          }
           ipcRenderer.send('update-overlay', assigned);
         } else if (message.type === 'ready_state') {
-          const readyState = message as ReadyStateMessage;
+          const readyState = message;
           if (agentId !== null) {
             isReady = readyState.agents[agentId] ?? false;
             updateReadyButton();
           }
           updateNames(readyState.names);
+          updateColors(readyState.colors);
+          updateLeader(readyState.leaderId, readyState.policy);
           ipcRenderer.send('update-overlay', readyState);
+        } else if (message.type === 'latency') {
+          ipcRenderer.send('update-overlay', message);
         } else if (message.type === 'countdown') {
-          const countdownMsg = message as CountdownMessage;
-          ipcRenderer.send('update-overlay', countdownMsg);
+          const countdownMsg = message;
+          setRunStatus('');
+          // The overlay counts down against this machine's clock, so hand it local time
+          const localTimestamp = clock.serverToLocal(countdownMsg.timestamp);
+          ipcRenderer.send('update-overlay', { ...countdownMsg, timestamp: localTimestamp });
           if (countdownEndTimer) clearTimeout(countdownEndTimer);
           countdownEndTimer = setTimeout(() => {
             countdownEndTimer = null;
             setRaidState('started');
-          }, countdownMsg.duration);
+          }, Math.max(0, localTimestamp + countdownMsg.duration - Date.now()));
         } else if (message.type === 'start') {
-          const startMessage = message as StartMessage;
-          scheduleStartActions(startMessage.timestamp, startMessage.starterAgentId);
+          const startMessage = message;
+          scheduleStartActions(clock.serverToLocal(startMessage.starterActionAt), startMessage.starterAgentId);
+        } else if (message.type === 'pong') {
+          handlePong(message);
         } else if (message.type === 'travel_mode') {
-          const travelMsg = message as { type: string; active: boolean };
-          setTravelMode(travelMsg.active);
+          setTravelMode(message.active);
         } else if (message.type === 'execute_travel') {
           if (isReady && autoStartEnabled) {
-            ipcRenderer.send('start-space');
+            ipcRenderer.send('run-action', { slot: 'travel', at: Date.now() });
           }
         } else if (message.type === 'reset') {
+          ipcRenderer.send('cancel-actions');
           if (countdownEndTimer) {
             clearTimeout(countdownEndTimer);
             countdownEndTimer = null;
@@ -440,8 +1099,19 @@ function connect() {
           travelBtn.classList.remove('execute');
           setRaidState('ready');
           ipcRenderer.send('update-overlay', { type: 'reset' });
+        } else if (message.type === 'lobby_settings') {
+          applyLobbySettings(message.settings);
+        } else if (message.type === 'run_split') {
+          const splitAgent = namesByAgent[message.split.agentId] || `Agent ${message.split.agentId}`;
+          setRunStatus(`${message.split.name} · ${formatRunTime(message.split.elapsedMs)} (${splitAgent})`);
+        } else if (message.type === 'run_finished') {
+          setRunStatus(`Finished in ${formatRunTime(message.totalMs)}`);
+        } else if (message.type === 'run_aborted') {
+          setRunStatus('');
+        } else if (message.type === 'welcome') {
+          console.log(`[WS] Server ${message.serverVersion} (protocol ${message.protocolVersion})`);
         } else if (message.type === 'error') {
-          updateStatus('disconnected', String(message.message ?? 'Server error'));
+          handleServerError(message);
         }
       } catch (e) {
         console.error('[WS] Parse error:', e);
@@ -471,11 +1141,310 @@ function disconnect() {
   updateStatus('disconnected', 'Disconnected');
 }
 
+function loadServerProfiles(): ServerProfile[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SERVER_PROFILES_STORAGE_KEY) ?? '[]') as unknown;
+    if (Array.isArray(parsed)) {
+      return parsed.filter((profile): profile is ServerProfile =>
+        !!profile && typeof profile.id === 'string' && typeof profile.name === 'string' &&
+        typeof profile.url === 'string' && toWebSocketUrl(profile.url) !== null);
+    }
+  } catch {
+    /* ignore */
+  }
+  return [];
+}
+
+function getAllServerProfiles(): ServerProfile[] {
+  return [...BUILT_IN_SERVER_PROFILES, ...serverProfiles];
+}
+
+function getActiveServerProfile(): ServerProfile {
+  const profiles = getAllServerProfiles();
+  return profiles.find((profile) => profile.id === activeServerId)
+    ?? profiles.find((profile) => profile.id === DEFAULT_SERVER_PROFILE_ID)
+    ?? profiles[0];
+}
+
+function isBuiltInServerProfile(id: string | null): boolean {
+  return BUILT_IN_SERVER_PROFILES.some((profile) => profile.id === id);
+}
+
+function renderServerSelect(select: HTMLSelectElement, selectedId: string) {
+  select.innerHTML = '';
+  for (const profile of getAllServerProfiles()) {
+    const option = document.createElement('option');
+    option.value = profile.id;
+    option.textContent = profile.name;
+    select.appendChild(option);
+  }
+  select.value = selectedId;
+}
+
+// Drop the current connection (and any session on it) and connect to the profile's server
+function switchServer(id: string) {
+  activeServerId = id;
+  localStorage.setItem(ACTIVE_SERVER_STORAGE_KEY, id);
+  renderServerSelect(serverSelect, id);
+  const profile = getActiveServerProfile();
+  if (profile.room) {
+    roomInput.value = profile.room;
+  }
+  resumeToken = null;
+  disconnect();
+  clock.reset();
+  ipcRenderer.send('update-overlay', { type: 'reset' });
+  connect();
+}
+
+function showServerTestResult(text: string, state: 'ok' | 'error' | 'pending') {
+  serverTestResult.textContent = text;
+  serverTestResult.classList.toggle('ok', state === 'ok');
+  serverTestResult.classList.toggle('error', state === 'error');
+}
+
+function formatServerTestResult(result: ServerTestResult): string {
+  const parts = [`Server ${result.version ?? 'version unknown'}`];
+  if (result.protocolVersion !== undefined && result.protocolVersion !== PROTOCOL_VERSION) {
+    parts.push(`protocol ${result.protocolVersion}, this app needs ${PROTOCOL_VERSION}`);
+  }
+  if (result.clients !== undefined && result.rooms !== undefined) {
+    parts.push(`${result.clients} agents in ${result.rooms} rooms`);
+  }
+  if (result.latencyMs !== undefined) {
+    parts.push(`${result.latencyMs} ms`);
+  }
+  return parts.join(' · ');
+}
+
+async function testServerProfile() {
+  showServerTestResult('Testing…', 'pending');
+  testServerBtn.disabled = true;
+  try {
+    const result = await ipcRenderer.invoke('test-server', serverUrlInput.value) as ServerTestResult;
+    if (result.ok) {
+      const compatible = result.protocolVersion === undefined || result.protocolVersion === PROTOCOL_VERSION;
+      showServerTestResult(formatServerTestResult(result), compatible ? 'ok' : 'error');
+    } else {
+      showServerTestResult(`Failed: ${result.error ?? 'unhealthy'}`, 'error');
+    }
+  } finally {
+    testServerBtn.disabled = false;
+  }
+}
+
+function loadServerIntoEditor(id: string | null) {
+  const profile = getAllServerProfiles().find((candidate) => candidate.id === id);
+  editingServerId = profile ? profile.id : null;
+  const readOnly = isBuiltInServerProfile(editingServerId);
+  serverNameInput.value = profile?.name ?? '';
+  serverUrlInput.value = profile?.url ?? '';
+  serverRoomInput.value = profile?.room ?? '';
+  serverTokenInput.value = profile?.token ?? '';
+  for (const input of [serverNameInput, serverUrlInput, serverRoomInput, serverTokenInput]) {
+    input.disabled = readOnly;
+  }
+  deleteServerBtn.disabled = editingServerId === null || readOnly;
+  saveServerBtn.textContent = readOnly ? 'Use This Server' : 'Save & Use';
+  showServerTestResult('', 'pending');
+}
+
+function openServersSettings(): void {
+  renderServerSelect(serverProfileSelect, activeServerId);
+  loadServerIntoEditor(activeServerId);
+
+  nameStep.classList.add('hidden');
+  serversStep.classList.remove('hidden');
+  document.body.classList.add('servers-view');
+  fabContainer.classList.add('hidden');
+  closeFabMenu();
+}
+
+function closeServersSettings(): void {
+  serversStep.classList.add('hidden');
+  nameStep.classList.remove('hidden');
+  fabContainer.classList.remove('hidden');
+  document.body.classList.remove('servers-view');
+}
+
+function newServerProfile() {
+  serverProfileSelect.value = '';
+  loadServerIntoEditor(null);
+  serverNameInput.focus();
+}
+
+function deleteServerProfile() {
+  if (editingServerId === null || isBuiltInServerProfile(editingServerId)) return;
+  const deletedId = editingServerId;
+  serverProfiles = serverProfiles.filter((profile) => profile.id !== deletedId);
+  localStorage.setItem(SERVER_PROFILES_STORAGE_KEY, JSON.stringify(serverProfiles));
+  renderServerSelect(serverProfileSelect, DEFAULT_SERVER_PROFILE_ID);
+  loadServerIntoEditor(DEFAULT_SERVER_PROFILE_ID);
+  if (activeServerId === deletedId) {
+    switchServer(DEFAULT_SERVER_PROFILE_ID);
+  } else {
+    renderServerSelect(serverSelect, activeServerId);
+  }
+}
+
+function saveServerProfile() {
+  if (editingServerId !== null && isBuiltInServerProfile(editingServerId)) {
+    closeServersSettings();
+    switchServer(editingServerId);
+    return;
+  }
+  const url = toWebSocketUrl(serverUrlInput.value);
+  if (!url) {
+    showServerTestResult('Enter a server URL such as wss://example.com/ws', 'error');
+    return;
+  }
+  const room = serverRoomInput.value.trim().toUpperCase();
+  const token = serverTokenInput.value.trim();
+  const profile: ServerProfile = {
+    id: editingServerId ?? `server-${Date.now().toString(36)}`,
+    name: serverNameInput.value.trim() || new URL(url).host,
+    url,
+    ...(room ? { room } : {}),
+    ...(token ? { token } : {}),
+  };
+  const index = serverProfiles.findIndex((candidate) => candidate.id === profile.id);
+  if (index >= 0) {
+    serverProfiles[index] = profile;
+  } else {
+    serverProfiles.push(profile);
+  }
+  localStorage.setItem(SERVER_PROFILES_STORAGE_KEY, JSON.stringify(serverProfiles));
+  closeServersSettings();
+  switchServer(profile.id);
+}
+
+function loadAudioCueSettings(): AudioCueSettings {
+  try {
+    return normalizeAudioCueSettings(JSON.parse(localStorage.getItem(AUDIO_CUES_STORAGE_KEY) ?? '{}'));
+  } catch {
+    return normalizeAudioCueSettings(null);
+  }
+}
+
+function saveAudioCueSettings() {
+  localStorage.setItem(AUDIO_CUES_STORAGE_KEY, JSON.stringify(audioCues));
+  cuePlayer.setSettings(audioCues);
+}
+
+function renderAudioCueList() {
+  audioCueList.innerHTML = '';
+  for (const id of AUDIO_CUE_IDS) {
+    const row = document.createElement('div');
+    row.className = 'audio-cue-row';
+
+    const label = document.createElement('span');
+    label.className = 'toggle-label';
+    label.textContent = AUDIO_CUE_LABELS[id];
+
+    const volume = document.createElement('input');
+    volume.type = 'range';
+    volume.min = '0';
+    volume.max = '1';
+    volume.step = '0.05';
+    volume.value = String(audioCues[id].volume);
+    volume.setAttribute('aria-label', `${AUDIO_CUE_LABELS[id]} volume`);
+    volume.addEventListener('change', () => {
+      audioCues[id].volume = Number(volume.value);
+      saveAudioCueSettings();
+    });
+
+    const testBtn = document.createElement('button');
+    testBtn.type = 'button';
+    testBtn.className = 'small-btn';
+    testBtn.textContent = 'Test';
+    testBtn.addEventListener('click', () => cuePlayer.preview(id));
+
+    const toggle = document.createElement('label');
+    toggle.className = 'toggle-switch';
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = audioCues[id].enabled;
+    checkbox.addEventListener('change', () => {
+      audioCues[id].enabled = checkbox.checked;
+      saveAudioCueSettings();
+    });
+    const slider = document.createElement('span');
+    slider.className = 'toggle-slider';
+    toggle.append(checkbox, slider);
+
+    row.append(label, volume, testBtn, toggle);
+    audioCueList.appendChild(row);
+  }
+  audioVoiceHint.textContent = cuePlayer.hasOfflineVoice()
+    ? ''
+    : 'No offline voice is installed, so voice call-outs stay silent. Install a speech voice in your system settings.';
+}
+
+function openSoundsSettings(): void {
+  renderAudioCueList();
+
+  nameStep.classList.add('hidden');
+  settingsStep.classList.add('hidden');
+  soundsStep.classList.remove('hidden');
+  document.body.classList.remove('settings-view');
+  document.body.classList.add('sounds-view');
+  fabContainer.classList.add('hidden');
+  closeFabMenu();
+}
+
+function closeSoundsSettings(): void {
+  soundsStep.classList.add('hidden');
+  fabContainer.classList.remove('hidden');
+  document.body.classList.remove('sounds-view');
+  if (hasConfirmedName) {
+    settingsStep.classList.remove('hidden');
+    document.body.classList.add('settings-view');
+  } else {
+    nameStep.classList.remove('hidden');
+  }
+}
+
+// Play or schedule the cues a lobby message calls for; `toLocal` converts its timestamps
+function handleAudioCues(message: ServerMessage, toLocal: (time: number) => number) {
+  switch (message.type) {
+    case 'countdown': {
+      const startsAt = toLocal(message.timestamp);
+      cuePlayer.scheduleCountdown(startsAt, startsAt + message.duration);
+      break;
+    }
+    case 'start':
+      cuePlayer.scheduleStart(toLocal(message.starterActionAt));
+      break;
+    case 'agent_assigned':
+    case 'ready_state': {
+      // Agents whose slots are held for a reconnect don't count, matching the server's start check
+      const joinedIds = Object.keys(message.names).map(Number).filter((id) => message.names[id]?.trim() && !message.reconnecting[id]);
+      const allReady = joinedIds.length > 0 && joinedIds.every((id) => message.agents[id]);
+      if (allReady && !allReadyCued) {
+        cuePlayer.play('allReady');
+      }
+      allReadyCued = allReady;
+      break;
+    }
+    case 'travel_mode':
+      if (message.active) {
+        cuePlayer.play('travel');
+      }
+      break;
+    case 'reset':
+      cuePlayer.cancel();
+      cuePlayer.play('reset');
+      break;
+    default:
+      break;
+  }
+}
+
 function sendReady() {
   if (ws && ws.readyState === WebSocket.OPEN) {
     isReady = !isReady;
-    const message = { type: 'ready', value: isReady };
-    ws.send(JSON.stringify(message));
+    const message: ClientMessage = { type: 'ready', value: isReady };
+    sendMessage(ws, message);
     updateReadyButton();
     if (travelMode) {
       ipcRenderer.send('update-overlay', { type: 'travel_ready', ready: isReady });
@@ -488,8 +1457,9 @@ function sendReady() {
 
 function sendStartRequest() {
   if (ws && ws.readyState === WebSocket.OPEN) {
-    const message = { type: 'start_request', timestamp: Date.now() };
-    ws.send(JSON.stringify(message));
+    // The server stamps the start time itself
+    const message: ClientMessage = { type: 'start_request' };
+    sendMessage(ws, message);
     console.log('[WS] Sent:', message);
   } else {
     console.warn('Not connected to server');
@@ -498,21 +1468,56 @@ function sendStartRequest() {
 
 function sendResetRaid() {
   if (ws && ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ type: 'reset_raid' }));
+    sendMessage(ws, { type: 'reset_raid' });
     console.log('[WS] Sent reset_raid');
   }
 }
 
+function sendSplit() {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    sendMessage(ws, { type: 'split' });
+    console.log('[WS] Sent split');
+  }
+}
+
+function sendFinishRun() {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    sendMessage(ws, { type: 'finish' });
+    console.log('[WS] Sent finish');
+  }
+}
+
+function sendLobbyPolicy(policy: LobbyPolicy) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    sendMessage(ws, { type: 'set_lobby_policy', policy });
+    console.log('[WS] Sent set_lobby_policy:', policy);
+  }
+}
+
+function sendLobbySettings(update: Partial<LobbySettings>) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    sendMessage(ws, { type: 'update_lobby_settings', ...update });
+    console.log('[WS] Sent update_lobby_settings:', update);
+  }
+}
+
+function sendTransferLeader(targetAgentId: number) {
+  if (ws && ws.readyState === WebSocket.OPEN) {
+    sendMessage(ws, { type: 'transfer_leader', agentId: targetAgentId });
+    console.log('[WS] Sent transfer_leader:', targetAgentId);
+  }
+}
+
 function sendTravelRequest() {
   if (ws && ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ type: 'travel_request' }));
+    sendMessage(ws, { type: 'travel_request' });
     console.log('[WS] Sent travel_request');
   }
 }
 
 function sendExecuteTravel() {
   if (ws && ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ type: 'execute_travel' }));
+    sendMessage(ws, { type: 'execute_travel' });
     console.log('[WS] Sent execute_travel');
   }
 }
@@ -540,25 +1545,219 @@ function setTravelMode(active: boolean) {
   }
 }
 
-function scheduleStartActions(timestamp: number, starterAgentId: number) {
-  if (!agentId) {
+// `starterActionAt` is when the starter acts (countdown end plus the lobby's starter offset),
+// already converted to this machine's clock. Returns the action that was scheduled, or null
+// when the matching auto toggle is off.
+function scheduleStartActions(
+  starterActionAt: number,
+  starterAgentId: number,
+  ownAgentId: number | null = agentId,
+): SequenceSlot | null {
+  if (!ownAgentId) {
+    return null;
+  }
+
+  // The main process runs the assigned sequence (or the built-in tap) against these times
+  if (ownAgentId === starterAgentId) {
+    if (!autoStartEnabled) return null;
+    ipcRenderer.send('run-action', { slot: 'starter', at: starterActionAt });
+    return 'starter';
+  }
+  if (!autoRollEnabled) return null;
+  // Everyone else rolls at their personal offset from the starter (default 100 ms before)
+  ipcRenderer.send('run-action', { slot: 'follower', at: starterActionAt + rollOffsetMs });
+  return 'follower';
+}
+
+function formatSignedMs(ms: number): string {
+  return `${ms < 0 ? '−' : '+'}${Math.abs(ms).toFixed(1)} ms`;
+}
+
+function setPracticeStatus(text: string) {
+  practiceStatus.textContent = text;
+}
+
+function showPracticeResult(lines: string[]) {
+  practiceResult.innerHTML = '';
+  for (const line of lines) {
+    const row = document.createElement('div');
+    row.textContent = line;
+    practiceResult.appendChild(row);
+  }
+}
+
+function updatePracticeReadyButton() {
+  practiceReadyBtn.textContent = practiceReady ? 'Ready ✓' : 'Ready';
+  practiceReadyBtn.classList.toggle('ready', practiceReady);
+}
+
+function updatePracticeHint() {
+  if (hasConfirmedName) {
+    practiceHint.textContent = 'Leave the room to practice.';
+    practiceStartBtn.disabled = true;
     return;
   }
+  practiceStartBtn.disabled = false;
+  practiceHint.textContent =
+    `${lobbySettings.countdownMs / 1000} s countdown, starter offset ${lobbySettings.starterOffsetMs} ms, ` +
+    `your roll offset ${rollOffsetMs} ms. Keys are really pressed; pick Dry run under Keybinds to rehearse without the game.`;
+}
+
+function openPracticeSettings(): void {
+  updatePracticeHint();
+  nameStep.classList.add('hidden');
+  settingsStep.classList.add('hidden');
+  practiceStep.classList.remove('hidden');
+  document.body.classList.remove('settings-view');
+  document.body.classList.add('practice-view');
+  fabContainer.classList.add('hidden');
+  closeFabMenu();
+}
 
-  if (agentId === starterAgentId) {
-    if (!autoStartEnabled) return;
-    // Starter always acts at exactly 3 seconds after timestamp
-    const delay = Math.max(0, timestamp + STARTER_DELAY_MS - Date.now());
-    setTimeout(() => {
-      ipcRenderer.send('start-space');
-    }, delay);
+function closePracticeSettings(): void {
+  stopPractice();
+  setPracticeStatus('');
+  showPracticeResult([]);
+  practiceStep.classList.add('hidden');
+  fabContainer.classList.remove('hidden');
+  document.body.classList.remove('practice-view');
+  if (hasConfirmedName) {
+    settingsStep.classList.remove('hidden');
+    document.body.classList.add('settings-view');
   } else {
-    if (!autoRollEnabled) return;
-    // Others use the customizable delay (default 2.9 seconds)
-    const delay = Math.max(0, timestamp + startDelayMs - Date.now());
-    setTimeout(() => {
-      ipcRenderer.send('start-roll');
-    }, delay);
+    nameStep.classList.remove('hidden');
+  }
+}
+
+// A fresh local lobby: bots ready up, then the usual countdown and start once we're Ready
+function startPractice() {
+  stopPractice();
+  showPracticeResult([]);
+  practiceFinished = false;
+  practiceReady = false;
+  updatePracticeReadyButton();
+  practiceReadyBtn.classList.remove('hidden');
+  practiceStartBtn.textContent = 'Stop Practice';
+  setPracticeStatus('Ready up when you are.');
+  ipcRenderer.send('show-overlay');
+  practice = startPracticeLobby({
+    name: nameInput.value.trim() || 'You',
+    botCount: Number(practiceBotsInput.value) || 1,
+    playerIsStarter: practiceRoleSelect.value === 'starter',
+    color: preferredColor,
+    settings: lobbySettings,
+    onMessage: handlePracticeMessage,
+  });
+}
+
+function finishPracticeRun() {
+  if (practicePending) {
+    clearTimeout(practicePending.timeout);
+    practicePending = null;
+  }
+  practiceFinished = true;
+  practiceReadyBtn.classList.add('hidden');
+  practiceStartBtn.textContent = 'Run Again';
+}
+
+function stopPractice() {
+  if (practicePending) {
+    clearTimeout(practicePending.timeout);
+    practicePending = null;
+    ipcRenderer.send('cancel-actions');
+  }
+  practiceReadyBtn.classList.add('hidden');
+  practiceStartBtn.textContent = 'Start Practice';
+  if (practice) {
+    const lobby = practice;
+    practice = null;
+    lobby.stop();
+  }
+}
+
+function togglePracticeReady() {
+  if (!practice) return;
+  practiceReady = !practiceReady;
+  updatePracticeReadyButton();
+  practice.setReady(practiceReady);
+}
+
+// The practice lobby's messages drive the overlay and start pipeline like the server's would
+function handlePracticeMessage(message: ServerMessage) {
+  // Practice timestamps are already this machine's clock
+  handleAudioCues(message, (time) => time);
+  if (message.type === 'start') {
+    const slot = scheduleStartActions(message.starterActionAt, message.starterAgentId, PRACTICE_AGENT_ID);
+    if (!slot) {
+      const toggle = message.starterAgentId === PRACTICE_AGENT_ID ? 'Auto Start' : 'Auto Roll';
+      showPracticeResult([`${toggle} is off, so nothing was pressed.`]);
+      finishPracticeRun();
+      return;
+    }
+    practicePending = {
+      slot,
+      starterActionAt: message.starterActionAt,
+      timeout: setTimeout(() => {
+        showPracticeResult(['No key press was reported. Check Key Simulation under Keybinds.']);
+        finishPracticeRun();
+      }, message.starterActionAt + PRACTICE_RESULT_TIMEOUT_MS - Date.now()),
+    };
+    setPracticeStatus(slot === 'starter' ? 'You start this one.' : 'Rolling with the starter…');
+    return;
+  }
+  if (message.type === 'countdown') {
+    practiceReadyBtn.classList.add('hidden');
+  }
+  ipcRenderer.send('update-overlay', message);
+}
+
+function handleActionFired(event: ActionFiredEvent) {
+  if (!practicePending || event.slot !== practicePending.slot) {
+    return;
+  }
+  const fromStarter = event.firedAt - practicePending.starterActionAt;
+  const timerError = event.firedAt - event.targetAt;
+  const lines = event.slot === 'starter'
+    ? [`Your press landed ${formatSignedMs(fromStarter)} from the target instant.`]
+    : [
+      `Your press landed ${formatSignedMs(fromStarter)} from the starter's action.`,
+      `Aimed for ${formatSignedMs(event.targetAt - practicePending.starterActionAt)} (your roll offset).`,
+    ];
+  lines.push(`Timer error ${formatSignedMs(timerError)}.`);
+  showPracticeResult(lines);
+  setPracticeStatus('');
+  finishPracticeRun();
+}
+
+function joinRoom(code: string) {
+  if (!ws || ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  // A blank code asks the server to create a fresh room with a generated code
+  const message: ClientMessage = code ? { type: 'join_room', room: code } : { type: 'create_room' };
+  sendMessage(ws, message);
+  console.log('[WS] Sent:', message);
+}
+
+function resumeSession(code: string, token: string) {
+  if (!ws || ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  sendMessage(ws, { type: 'join_room', room: code, resumeToken: token });
+  // If the slot had already been freed the server assigns a new one, so restore the name too
+  if (selectedName) {
+    sendMessage(ws, { type: 'set_name', name: selectedName });
+  }
+  console.log('[WS] Sent resume for room', code);
+}
+
+function setRoomCode(code: string | null) {
+  roomCode = code;
+  roomCodeBtn.textContent = code ? `Room ${code}` : '';
+  roomCodeBtn.classList.toggle('hidden', !code);
+  if (code) {
+    roomInput.value = code;
+    localStorage.setItem(ROOM_CODE_STORAGE_KEY, code);
   }
 }
 
@@ -568,8 +1767,8 @@ function saveName(name: string) {
     return;
   }
   if (ws && ws.readyState === WebSocket.OPEN) {
-    const message = { type: 'set_name', name: cleanName };
-    ws.send(JSON.stringify(message));
+    const message: ClientMessage = { type: 'set_name', name: cleanName };
+    sendMessage(ws, message);
     localStorage.setItem('shd-display-name', cleanName);
     selectedName = cleanName;
     updateStatus('connected', 'Connected');
@@ -578,16 +1777,16 @@ function saveName(name: string) {
   }
 }
 
-function getDelaySeconds() {
-  const parsed = Number(delayInput.value);
-  if (!Number.isFinite(parsed) || parsed < 0) {
-    return DEFAULT_START_DELAY_SECONDS;
+function getRollOffsetMs() {
+  const parsed = Number(rollOffsetInput.value);
+  if (rollOffsetInput.value.trim() === '' || !Number.isFinite(parsed)) {
+    return DEFAULT_KEYBINDS.rollOffsetMs;
   }
-  return parsed;
+  return Math.round(parsed);
 }
 
-function setDelaySeconds(seconds: number) {
-  delayInput.value = String(seconds);
+function setRollOffsetMs(offsetMs: number) {
+  rollOffsetInput.value = String(offsetMs);
 }
 
 function updateWelcomeText() {
@@ -607,6 +1806,127 @@ function updateNames(names?: Record<number, string>) {
   namesByAgent = names;
 }
 
+function getAgentLabel(id: number): string {
+  return namesByAgent[id]?.trim() || `Agent ${id}`;
+}
+
+function parseAgentColor(value: unknown): AgentColor | null {
+  return AGENT_COLORS.find((color) => color === value) ?? null;
+}
+
+function updateColors(colors?: Record<number, AgentColor | null>) {
+  if (!colors) {
+    return;
+  }
+  colorsByAgent = colors;
+  renderSquad();
+  renderColorPicker();
+}
+
+function setAgentColorStyle(element: HTMLElement, color: AgentColor | null | undefined) {
+  const hex = getAgentColorHex(overlayTheme, color);
+  if (hex) {
+    element.style.setProperty('--agent-color', hex);
+  } else {
+    element.style.removeProperty('--agent-color');
+  }
+}
+
+// Everyone in the lobby, in the colours their overlays show them in
+function renderSquad() {
+  squadList.innerHTML = '';
+  for (const [id, name] of Object.entries(namesByAgent)) {
+    if (!name.trim()) {
+      continue;
+    }
+    const chip = document.createElement('span');
+    chip.className = Number(id) === agentId ? 'squad-chip self' : 'squad-chip';
+    setAgentColorStyle(chip, colorsByAgent[Number(id)]);
+    const dot = document.createElement('span');
+    dot.className = 'squad-dot';
+    chip.append(dot, name.trim());
+    squadList.appendChild(chip);
+  }
+}
+
+function renderColorPicker() {
+  const current = agentId !== null ? colorsByAgent[agentId] ?? preferredColor : preferredColor;
+  colorPicker.querySelectorAll('.color-swatch').forEach((swatch) => swatch.remove());
+  for (const color of AGENT_COLORS) {
+    const swatch = document.createElement('button');
+    swatch.type = 'button';
+    swatch.className = color === current ? 'color-swatch selected' : 'color-swatch';
+    swatch.title = AGENT_COLOR_LABELS[color];
+    swatch.setAttribute('role', 'radio');
+    swatch.setAttribute('aria-checked', String(color === current));
+    swatch.style.setProperty('--swatch', getAgentColorHex(overlayTheme, color) ?? '');
+    swatch.addEventListener('click', () => pickAgentColor(color));
+    colorPicker.appendChild(swatch);
+  }
+}
+
+function pickAgentColor(color: AgentColor) {
+  preferredColor = color;
+  localStorage.setItem(AGENT_COLOR_STORAGE_KEY, color);
+  if (ws && ws.readyState === WebSocket.OPEN && agentId !== null) {
+    sendMessage(ws, { type: 'set_color', color });
+  }
+  renderColorPicker();
+}
+
+// Show who leads the lobby; the leader also gets the policy toggle and hand-over picker.
+// Travel and reset are greyed out for everyone else while the lobby is leader-only.
+function updateLeader(newLeaderId: number | null, policy: LobbyPolicy) {
+  leaderId = newLeaderId;
+  lobbyPolicy = policy;
+  const isLeader = agentId !== null && leaderId === agentId;
+  const canControl = lobbyPolicy === 'anyone' || isLeader;
+
+  leaderText.textContent = '';
+  if (leaderId !== null) {
+    const label = document.createElement('strong');
+    label.textContent = isLeader ? 'You' : getAgentLabel(leaderId);
+    setAgentColorStyle(label, colorsByAgent[leaderId]);
+    leaderText.append(label, isLeader ? ' lead this lobby' : ' leads this lobby');
+    if (lobbyPolicy === 'leader_only') {
+      leaderText.append(' · leader-only controls');
+    }
+  }
+
+  leaderControls.classList.toggle('hidden', !isLeader);
+  leaderOnlyToggle.checked = lobbyPolicy === 'leader_only';
+  travelBtn.disabled = !canControl;
+  resetRaidBtn.disabled = !canControl;
+  countdownSecondsInput.disabled = !canControl;
+  starterOffsetInput.disabled = !canControl;
+
+  transferLeaderSelect.innerHTML = '';
+  const placeholder = document.createElement('option');
+  placeholder.value = '';
+  placeholder.textContent = 'Hand over leader…';
+  transferLeaderSelect.appendChild(placeholder);
+  for (const [id, name] of Object.entries(namesByAgent)) {
+    if (Number(id) !== agentId && name.trim()) {
+      const option = document.createElement('option');
+      option.value = id;
+      option.textContent = name.trim();
+      transferLeaderSelect.appendChild(option);
+    }
+  }
+  transferLeaderSelect.disabled = transferLeaderSelect.options.length <= 1;
+}
+
+function applyLobbySettings(settings: LobbySettings) {
+  lobbySettings = settings;
+  // Don't overwrite a value the user is in the middle of typing
+  if (document.activeElement !== countdownSecondsInput) {
+    countdownSecondsInput.value = String(settings.countdownMs / 1000);
+  }
+  if (document.activeElement !== starterOffsetInput) {
+    starterOffsetInput.value = String(settings.starterOffsetMs);
+  }
+}
+
 // Error banner management
 function showError(message: string) {
   errorBannerText.textContent = message;
@@ -626,10 +1946,32 @@ ipcRenderer.on('app-error', (_event: unknown, message: string) => {
   showError(message);
 });
 
+ipcRenderer.on('overlay-theme', (_event: unknown, theme: unknown) => {
+  if (isOverlayThemeId(theme)) {
+    overlayTheme = theme;
+    renderSquad();
+    renderColorPicker();
+    updateLeader(leaderId, lobbyPolicy);
+  }
+});
+
+ipcRenderer.on('input-backend', (_event: unknown, status: InputBackendStatus) => {
+  inputBackendStatus.textContent = status.detail;
+  inputBackendStatus.classList.toggle('error', status.name === null);
+});
+
 // Listen for hotkey from main process
 ipcRenderer.on('hotkey-ready', () => {
   console.log('Hotkey received');
-  sendReady();
+  if (practice) {
+    togglePracticeReady();
+  } else {
+    sendReady();
+  }
+});
+
+ipcRenderer.on('action-fired', (_event: unknown, event: ActionFiredEvent) => {
+  handleActionFired(event);
 });
 
 ipcRenderer.on('hotkey-start', () => {
@@ -639,13 +1981,14 @@ ipcRenderer.on('hotkey-start', () => {
 
 // Initialize
 resetRaidBtn.addEventListener('click', sendResetRaid);
-delayInput.addEventListener('input', () => {
-  const delaySeconds = getDelaySeconds();
-  startDelayMs = delaySeconds * 1000;
+rollOffsetInput.addEventListener('input', () => {
+  rollOffsetMs = getRollOffsetMs();
 });
 function joinWithName() {
   const name = nameInput.value.trim();
   if (!name) return;
+  // Join (or create) the room first so the server has a slot to attach the name to
+  joinRoom(roomInput.value.trim().toUpperCase());
   saveName(name);
   hasConfirmedName = true;
   nameStep.classList.add('hidden');
@@ -661,6 +2004,16 @@ nameInput.addEventListener('keydown', (e) => {
     joinWithName();
   }
 });
+roomInput.addEventListener('keydown', (e) => {
+  if (e.key === 'Enter') {
+    joinWithName();
+  }
+});
+roomCodeBtn.addEventListener('click', () => {
+  if (roomCode) {
+    navigator.clipboard.writeText(roomCode).catch(() => { /* ignore */ });
+  }
+});
 
 backBtn.addEventListener('click', () => {
   hasConfirmedName = false;
@@ -675,6 +2028,28 @@ fabBtn.addEventListener('click', (e) => {
   toggleFabMenu();
 });
 editKeybindsBtn.addEventListener('click', openKeybindsSettings);
+editSequencesBtn.addEventListener('click', openSequencesSettings);
+practiceMenuBtn.addEventListener('click', openPracticeSettings);
+soundsMenuBtn.addEventListener('click', openSoundsSettings);
+soundsBackBtn.addEventListener('click', closeSoundsSettings);
+window.speechSynthesis.addEventListener('voiceschanged', () => {
+  if (!soundsStep.classList.contains('hidden')) renderAudioCueList();
+});
+// Editing happens on the overlay itself, which shows its own toolbar
+editOverlayLayoutBtn.addEventListener('click', () => {
+  closeFabMenu();
+  ipcRenderer.send('overlay-edit', true);
+});
+practiceBackBtn.addEventListener('click', closePracticeSettings);
+practiceStartBtn.addEventListener('click', () => {
+  if (practice && !practiceFinished) {
+    stopPractice();
+    setPracticeStatus('');
+  } else {
+    startPractice();
+  }
+});
+practiceReadyBtn.addEventListener('click', togglePracticeReady);
 readyBtn.addEventListener('click', sendReady);
 travelBtn.addEventListener('click', () => {
   if (!travelMode) {
@@ -684,6 +2059,35 @@ travelBtn.addEventListener('click', () => {
   }
 });
 
+leaderOnlyToggle.addEventListener('change', () => {
+  sendLobbyPolicy(leaderOnlyToggle.checked ? 'leader_only' : 'anyone');
+});
+transferLeaderSelect.addEventListener('change', () => {
+  const target = Number(transferLeaderSelect.value);
+  transferLeaderSelect.value = '';
+  if (target) {
+    sendTransferLeader(target);
+  }
+});
+countdownSecondsInput.addEventListener('change', () => {
+  const seconds = Number(countdownSecondsInput.value);
+  if (Number.isFinite(seconds)) {
+    sendLobbySettings({ countdownMs: Math.round(seconds * 1000) });
+  } else {
+    applyLobbySettings(lobbySettings);
+  }
+});
+starterOffsetInput.addEventListener('change', () => {
+  const offsetMs = Number(starterOffsetInput.value);
+  if (Number.isFinite(offsetMs)) {
+    sendLobbySettings({ starterOffsetMs: Math.round(offsetMs) });
+  } else {
+    applyLobbySettings(lobbySettings);
+  }
+});
+splitBtn.addEventListener('click', sendSplit);
+finishBtn.addEventListener('click', sendFinishRun);
+
 // Toggle switches for auto roll / auto start
 autoRollToggle.checked = autoRollEnabled;
 autoStartToggle.checked = autoStartEnabled;
@@ -703,78 +2107,70 @@ setupKeybindCapture(keybindTestRollBtn, 'testRoll');
 // Roll key capture — captures a single key name for robotjs (not an accelerator)
 const rollKeyBtn = document.getElementById('keybindRollKey') as HTMLButtonElement;
 rollKeyBtn.addEventListener('click', () => {
-  if (rollKeyBtn.classList.contains('recording')) return;
-  const originalText = rollKeyBtn.textContent ?? '';
-  const originalKey = rollKeyBtn.dataset.key ?? '';
-  rollKeyBtn.classList.add('recording');
-  rollKeyBtn.textContent = 'Press a key...';
-
-  function cleanup() {
-    window.removeEventListener('keydown', keyHandler, true);
-    document.removeEventListener('mousedown', cancelHandler, true);
-  }
-
-  const cancelHandler = (e: MouseEvent) => {
-    if (e.target !== rollKeyBtn) {
-      rollKeyBtn.classList.remove('recording');
-      rollKeyBtn.textContent = originalText;
-      rollKeyBtn.dataset.key = originalKey;
-      cleanup();
-    }
-  };
-
-  const keyHandler = (e: KeyboardEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    // Map key names to robotjs-compatible names
-    const keyMap: Record<string, string> = {
-      ' ': 'space',
-      'Control': 'control',
-      'Shift': 'shift',
-      'Alt': 'alt',
-      'Meta': 'command',
-      'ArrowUp': 'up',
-      'ArrowDown': 'down',
-      'ArrowLeft': 'left',
-      'ArrowRight': 'right',
-      'Escape': 'escape',
-      'Enter': 'enter',
-      'Backspace': 'backspace',
-      'Tab': 'tab',
-      'Delete': 'delete',
-      'CapsLock': 'capslock',
-    };
-    const key = keyMap[e.key] || e.key.toLowerCase();
+  captureRobotKey(rollKeyBtn, (key) => {
     rollKeyBtn.dataset.key = key;
-    rollKeyBtn.textContent = key;
-    rollKeyBtn.classList.remove('recording');
-    cleanup();
-  };
-
-  window.addEventListener('keydown', keyHandler, { capture: true });
-  document.addEventListener('mousedown', cancelHandler, { capture: true });
+  });
 });
 
 keybindsSettingsBackBtn.addEventListener('click', closeKeybindsSettings);
 saveKeybindsBtn.addEventListener('click', saveKeybindsSettings);
 
+sequencesBackBtn.addEventListener('click', closeSequencesSettings);
+saveSequencesBtn.addEventListener('click', saveSequencesSettings);
+newSequenceBtn.addEventListener('click', addSequence);
+deleteSequenceBtn.addEventListener('click', deleteSequence);
+sequenceSelect.addEventListener('change', () => {
+  editingSequenceId = sequenceSelect.value || null;
+  renderSequenceEditor();
+});
+sequenceNameInput.addEventListener('input', () => {
+  const sequence = getEditingSequence();
+  if (sequence) {
+    sequence.name = sequenceNameInput.value;
+    renderSequencePicker();
+  }
+});
+addStepBtn.addEventListener('click', () => {
+  const sequence = getEditingSequence();
+  if (sequence && sequence.steps.length < MAX_SEQUENCE_STEPS) {
+    sequence.steps.push({ type: 'tap', key: 'space' });
+    renderSequenceSteps();
+  }
+});
+
 // Close FAB menu when clicking outside
 document.addEventListener('click', (e) => {
   if (!fabContainer.contains(e.target as Node)) {
     closeFabMenu();
   }
 });
+serverProfiles = loadServerProfiles();
+activeServerId = localStorage.getItem(ACTIVE_SERVER_STORAGE_KEY) ?? DEFAULT_SERVER_PROFILE_ID;
+activeServerId = getActiveServerProfile().id;
+renderServerSelect(serverSelect, activeServerId);
+serverSelect.addEventListener('change', () => switchServer(serverSelect.value));
+manageServersBtn.addEventListener('click', openServersSettings);
+serversBackBtn.addEventListener('click', closeServersSettings);
+serverProfileSelect.addEventListener('change', () => loadServerIntoEditor(serverProfileSelect.value));
+newServerBtn.addEventListener('click', newServerProfile);
+deleteServerBtn.addEventListener('click', deleteServerProfile);
+testServerBtn.addEventListener('click', () => {
+  testServerProfile().catch((e) => showServerTestResult(`Failed: ${String(e)}`, 'error'));
+});
+saveServerBtn.addEventListener('click', saveServerProfile);
+
 // Show DEV badge immediately when running in development
 if (isDev && devBadge) {
   devBadge.classList.remove('hidden');
-  console.log('[DEV] Running in development mode — connecting to', SERVER_URL);
+  console.log('[DEV] Running in development mode — connecting to', getActiveServerProfile().url);
 }
 
 // Load saved keybinds (includes roll delay) and send to main process
 const initialKeybinds = loadKeybinds();
-setDelaySeconds(initialKeybinds.rollDelaySeconds);
-startDelayMs = initialKeybinds.rollDelaySeconds * 1000;
+setRollOffsetMs(initialKeybinds.rollOffsetMs);
+rollOffsetMs = initialKeybinds.rollOffsetMs;
 ipcRenderer.send('keybinds-config', initialKeybinds);
+ipcRenderer.send('sequences-config', resolveSequences(loadSequencesConfig()));
 
 // Auto-connect on load
 document.addEventListener('DOMContentLoaded', () => {
@@ -783,5 +2179,8 @@ document.addEventListener('DOMContentLoaded', () => {
   if (savedName) {
     nameInput.value = savedName;
   }
+  roomInput.value = getActiveServerProfile().room ?? localStorage.getItem(ROOM_CODE_STORAGE_KEY) ?? '';
+  preferredColor = parseAgentColor(localStorage.getItem(AGENT_COLOR_STORAGE_KEY));
+  renderColorPicker();
   connect();
 });
@@ -0,0 +1,145 @@
+import { AGENT_COLORS, MAX_AGENTS } from 'shd-overlay-protocol';
+import type { AgentColor, LobbySettings, RoomSnapshot, ServerMessage } from 'shd-overlay-protocol';
+
+// A local stand-in for a server lobby. Bot agents ready up on their own and, once everyone
+// is ready, the lobby counts down and starts with the same messages the server would send.
+// Timestamps are this machine's clock, so no clock conversion is needed.
+
+export const PRACTICE_AGENT_ID = 1;
+export const PRACTICE_MAX_BOTS = MAX_AGENTS - 1;
+
+const BOT_READY_MIN_MS = 400;
+const BOT_READY_MAX_MS = 2000;
+// Gap between the last agent readying up and the start, like a squad member pressing Start
+const AUTO_START_DELAY_MS = 500;
+
+export interface PracticeOptions {
+  name: string;
+  botCount: number;
+  playerIsStarter: boolean;
+  color: AgentColor | null; // the player's chosen colour; bots take the others in order
+  settings: LobbySettings;
+  onMessage: (message: ServerMessage) => void;
+}
+
+export interface PracticeLobby {
+  setReady: (ready: boolean) => void;
+  stop: () => void;
+}
+
+export function startPracticeLobby(options: PracticeOptions): PracticeLobby {
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const ready = new Map<number, boolean>();
+  const names = new Map<number, string>();
+  const colors = new Map<number, AgentColor>();
+  const botCount = Math.min(PRACTICE_MAX_BOTS, Math.max(1, Math.round(options.botCount)));
+  let started = false;
+
+  ready.set(PRACTICE_AGENT_ID, false);
+  names.set(PRACTICE_AGENT_ID, options.name);
+  const playerColor = options.color ?? AGENT_COLORS[0];
+  const botColors = AGENT_COLORS.filter((color) => color !== playerColor);
+  colors.set(PRACTICE_AGENT_ID, playerColor);
+  for (let i = 1; i <= botCount; i += 1) {
+    ready.set(PRACTICE_AGENT_ID + i, false);
+    names.set(PRACTICE_AGENT_ID + i, `Bot ${i}`);
+    colors.set(PRACTICE_AGENT_ID + i, botColors[i - 1]);
+  }
+
+  const later = (fn: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      fn();
+    }, ms);
+    timers.add(timer);
+  };
+
+  const getSnapshot = (): RoomSnapshot => {
+    const snapshot: RoomSnapshot = {
+      agents: {},
+      names: {},
+      colors: {},
+      reconnecting: {},
+      leaderId: PRACTICE_AGENT_ID,
+      policy: 'anyone',
+      rtt: {},
+      lastSeen: {},
+      clientRtt: {},
+      clockOffset: {},
+    };
+    for (let i = 1; i <= MAX_AGENTS; i += 1) {
+      snapshot.agents[i] = ready.get(i) ?? false;
+      snapshot.names[i] = names.get(i) ?? '';
+      snapshot.colors[i] = colors.get(i) ?? null;
+      snapshot.reconnecting[i] = false;
+      snapshot.rtt[i] = null;
+      snapshot.lastSeen[i] = null;
+      snapshot.clientRtt[i] = null;
+      snapshot.clockOffset[i] = null;
+    }
+    return snapshot;
+  };
+
+  const emitReadyState = () => options.onMessage({ type: 'ready_state', ...getSnapshot() });
+
+  const startIfAllReady = () => {
+    if (started || [...ready.values()].some((value) => !value)) {
+      return;
+    }
+    started = true;
+    later(() => {
+      const timestamp = Date.now();
+      const { countdownMs, starterOffsetMs } = options.settings;
+      options.onMessage({ type: 'countdown', timestamp, duration: countdownMs });
+      options.onMessage({
+        type: 'start',
+        timestamp,
+        starterAgentId: options.playerIsStarter ? PRACTICE_AGENT_ID : PRACTICE_AGENT_ID + 1,
+        starterActionAt: timestamp + countdownMs + starterOffsetMs,
+      });
+    }, AUTO_START_DELAY_MS);
+  };
+
+  options.onMessage({
+    type: 'agent_assigned',
+    agentId: PRACTICE_AGENT_ID,
+    room: 'PRACTICE',
+    resumeToken: '',
+    resumed: false,
+    travelMode: false,
+    settings: options.settings,
+    ...getSnapshot(),
+  });
+
+  for (let i = 1; i <= botCount; i += 1) {
+    const botId = PRACTICE_AGENT_ID + i;
+    later(() => {
+      ready.set(botId, true);
+      emitReadyState();
+      startIfAllReady();
+    }, BOT_READY_MIN_MS + Math.random() * (BOT_READY_MAX_MS - BOT_READY_MIN_MS));
+  }
+
+  return {
+    setReady: (value) => {
+      if (started) {
+        return;
+      }
+      ready.set(PRACTICE_AGENT_ID, value);
+      emitReadyState();
+      startIfAllReady();
+    },
+    // Everyone leaves: the overlay is reset and emptied
+    stop: () => {
+      for (const timer of timers) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+      ready.clear();
+      names.clear();
+      colors.clear();
+      options.onMessage({ type: 'reset' });
+      emitReadyState();
+    },
+  };
+}
@@ -1,33 +1,19 @@
 import { ipcRenderer } from 'electron';
+import { AGENT_COLORS, MAX_AGENTS } from 'shd-overlay-protocol';
+import type {
+  AgentAssignedMessage,
+  AgentColor,
+  CountdownMessage,
+  LatencyMessage,
+  ReadyStateMessage,
+  ResetMessage,
+  TravelModeMessage,
+} from 'shd-overlay-protocol';
+import { DEFAULT_OVERLAY_THEME, getAgentColorHex } from '../../shared/themes';
+import type { OverlayThemeId } from '../../shared/themes';
+import { initLayoutEditor } from './layout';
 
-interface ReadyStateMessage {
-  type: 'ready_state';
-  agents: Record<number, boolean>;
-  names: Record<number, string>;
-}
-
-interface AgentAssignedMessage {
-  type: 'agent_assigned';
-  agentId: number;
-  agents: Record<number, boolean>;
-  names: Record<number, string>;
-}
-
-interface CountdownMessage {
-  type: 'countdown';
-  timestamp: number;
-  duration: number;
-}
-
-interface ResetMessage {
-  type: 'reset';
-}
-
-interface TravelModeMessage {
-  type: 'travel_mode';
-  active: boolean;
-}
-
+// Sent by the connect window over IPC only, never by the server
 interface TravelReadyMessage {
   type: 'travel_ready';
   ready: boolean;
@@ -35,6 +21,7 @@ interface TravelReadyMessage {
 
 type OverlayMessage =
   | ReadyStateMessage
+  | LatencyMessage
   | AgentAssignedMessage
   | CountdownMessage
   | ResetMessage
@@ -43,7 +30,6 @@ type OverlayMessage =
 
 type OverlayState = 'agents' | 'countdown';
 
-const MAX_AGENTS = 8;
 const modeIndicator = document.getElementById('modeIndicator') as HTMLDivElement;
 const agentList = document.getElementById('agentList') as HTMLDivElement;
 const countdown = document.getElementById('countdown') as HTMLDivElement;
@@ -53,13 +39,29 @@ const agentRows = new Map<number, HTMLDivElement>();
 const agentDots = new Map<number, HTMLSpanElement>();
 const agentStatuses = new Map<number, HTMLSpanElement>();
 const agentNames = new Map<number, HTMLSpanElement>();
+const agentLatencyBadges = new Map<number, HTMLSpanElement>();
+
+// Latency badge colours: green up to GOOD, amber up to WARN, red above
+const LATENCY_GOOD_MS = 60;
+const LATENCY_WARN_MS = 120;
 
 let selfAgentId: number | null = null;
 let agentStates: Record<number, boolean> = {};
 let agentNameState: Record<number, string> = {};
+let agentColorState: Record<number, AgentColor | null> = {};
+let theme: OverlayThemeId = DEFAULT_OVERLAY_THEME;
+let agentReconnectingState: Record<number, boolean> = {};
+let leaderAgentId: number | null = null;
+let agentLatencyState: Record<number, number | null> = {};
+let serverRttState: Record<number, number | null> = {};
+let clientRttState: Record<number, number | null> = {};
 let overlayState: OverlayState = 'agents';
 let countdownInterval: ReturnType<typeof setInterval> | null = null;
 let inTravelMode = false;
+let layoutEditing = false;
+
+// Placeholder rows so the agent list can be placed before anyone has joined
+const SAMPLE_AGENT_COUNT = 4;
 
 function setOverlayState(state: OverlayState) {
   overlayState = state;
@@ -105,18 +107,42 @@ function normalizeAgentNames(names: Record<number, string>): Record<number, stri
   return normalized;
 }
 
-function updateAgentRow(agentId: number, isReady: boolean, displayName: string) {
+function updateAgentRow(
+  agentId: number,
+  isReady: boolean,
+  displayName: string,
+  isReconnecting: boolean,
+  latency: number | null,
+  agentColor: AgentColor | null,
+) {
   const row = agentRows.get(agentId);
   const dot = agentDots.get(agentId);
   const status = agentStatuses.get(agentId);
   const name = agentNames.get(agentId);
-  if (!row || !dot || !status || !name) {
+  const latencyBadge = agentLatencyBadges.get(agentId);
+  if (!row || !dot || !status || !name || !latencyBadge) {
     return;
   }
-  row.classList.toggle('ready', isReady);
-  row.classList.toggle('unready', !isReady);
-  status.textContent = isReady ? 'Ready' : 'Unready';
-  dot.classList.toggle('ready', isReady);
+  const showLatency = !isReconnecting && latency !== null;
+  latencyBadge.classList.toggle('hidden', !showLatency);
+  if (showLatency) {
+    latencyBadge.textContent = `${Math.round(latency)}ms`;
+    latencyBadge.classList.toggle('good', latency <= LATENCY_GOOD_MS);
+    latencyBadge.classList.toggle('warn', latency > LATENCY_GOOD_MS && latency <= LATENCY_WARN_MS);
+    latencyBadge.classList.toggle('bad', latency > LATENCY_WARN_MS);
+  }
+  row.classList.toggle('ready', isReady && !isReconnecting);
+  row.classList.toggle('unready', !isReady && !isReconnecting);
+  row.classList.toggle('reconnecting', isReconnecting);
+  row.classList.toggle('leader', agentId === leaderAgentId);
+  const color = getAgentColorHex(theme, agentColor);
+  if (color) {
+    row.style.setProperty('--agent-color', color);
+  } else {
+    row.style.removeProperty('--agent-color');
+  }
+  status.textContent = isReconnecting ? 'Reconnecting' : isReady ? 'Ready' : 'Unready';
+  dot.classList.toggle('ready', isReady && !isReconnecting);
   name.textContent = displayName || `Agent ${agentId}`;
 }
 
@@ -126,6 +152,7 @@ function renderAgentList() {
   agentDots.clear();
   agentStatuses.clear();
   agentNames.clear();
+  agentLatencyBadges.clear();
 }
 
 function getJoinedAgentIds(names: Record<number, string>): number[] {
@@ -144,6 +171,7 @@ function renderJoinedAgents(joinedIds: number[]) {
   agentDots.clear();
   agentStatuses.clear();
   agentNames.clear();
+  agentLatencyBadges.clear();
 
   for (const i of joinedIds) {
     const row = document.createElement('div');
@@ -156,43 +184,104 @@ function renderJoinedAgents(joinedIds: number[]) {
     name.className = 'agent-name';
     name.textContent = `Agent ${i}`;
 
+    const leaderBadge = document.createElement('span');
+    leaderBadge.className = 'leader-badge';
+    leaderBadge.textContent = '★';
+    leaderBadge.title = 'Lobby leader';
+
+    const latencyBadge = document.createElement('span');
+    latencyBadge.className = 'latency-badge hidden';
+
     const status = document.createElement('span');
     status.className = 'agent-status';
     status.textContent = 'Unready';
 
-    row.append(dot, name, status);
+    row.append(dot, name, leaderBadge, latencyBadge, status);
     agentList.appendChild(row);
 
     agentRows.set(i, row);
     agentDots.set(i, dot);
     agentStatuses.set(i, status);
     agentNames.set(i, name);
+    agentLatencyBadges.set(i, latencyBadge);
   }
 }
 
-function applyAgentStates(states: Record<number, boolean>, names: Record<number, string>) {
+function applyAgentStates(
+  states: Record<number, boolean>,
+  names: Record<number, string>,
+  colors: Record<number, AgentColor | null>,
+  reconnecting: Record<number, boolean>,
+  leaderId: number | null,
+  serverRtt: Record<number, number | null>,
+  clientRtt: Record<number, number | null>,
+) {
+  leaderAgentId = leaderId;
+  serverRttState = serverRtt;
+  clientRttState = clientRtt;
+  updateLatencyState();
   agentStates = normalizeAgentStates(states);
   agentNameState = normalizeAgentNames(names);
+  agentColorState = colors;
+  agentReconnectingState = normalizeAgentStates(reconnecting);
   refreshAgentListDisplay();
 }
 
+// Prefer the agent's own clock-sync measurement; fall back to the server's heartbeat RTT
+function updateLatencyState() {
+  agentLatencyState = {};
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    agentLatencyState[i] = clientRttState[i] ?? serverRttState[i] ?? null;
+  }
+}
+
 function refreshAgentListDisplay() {
   const joinedIds = getJoinedAgentIds(agentNameState);
+  if (joinedIds.length === 0 && layoutEditing) {
+    renderSampleAgents();
+    return;
+  }
   renderJoinedAgents(joinedIds);
   for (const id of joinedIds) {
-    updateAgentRow(id, agentStates[id], agentNameState[id]);
+    updateAgentRow(id, agentStates[id], agentNameState[id], agentReconnectingState[id], agentLatencyState[id], agentColorState[id] ?? null);
   }
 }
 
+function renderSampleAgents() {
+  const sampleIds = Array.from({ length: SAMPLE_AGENT_COUNT }, (_, index) => index + 1);
+  renderJoinedAgents(sampleIds);
+  for (const id of sampleIds) {
+    updateAgentRow(id, id <= SAMPLE_AGENT_COUNT / 2, `Agent ${id}`, false, null, AGENT_COLORS[id - 1]);
+  }
+}
+
+initLayoutEditor({
+  onEditingChange: (editing) => {
+    layoutEditing = editing;
+    if (!countdownInterval) {
+      countdownValue.textContent = '3';
+    }
+    refreshAgentListDisplay();
+  },
+  onThemeChange: (nextTheme) => {
+    theme = nextTheme;
+    refreshAgentListDisplay();
+  },
+});
+
 // Listen for updates from main process
 ipcRenderer.on('overlay-update', (_event: unknown, data: OverlayMessage) => {
   console.log('Overlay update:', data);
   if (data.type === 'agent_assigned') {
     selfAgentId = data.agentId;
-    applyAgentStates(data.agents ?? {}, data.names ?? {});
+    applyAgentStates(data.agents ?? {}, data.names ?? {}, data.colors ?? {}, data.reconnecting ?? {}, data.leaderId ?? null, data.rtt ?? {}, data.clientRtt ?? {});
     setOverlayState('agents');
   } else if (data.type === 'ready_state') {
-    applyAgentStates(data.agents ?? {}, data.names ?? {});
+    applyAgentStates(data.agents ?? {}, data.names ?? {}, data.colors ?? {}, data.reconnecting ?? {}, data.leaderId ?? null, data.rtt ?? {}, data.clientRtt ?? {});
+  } else if (data.type === 'latency') {
+    serverRttState = data.rtt ?? {};
+    updateLatencyState();
+    refreshAgentListDisplay();
   } else if (data.type === 'countdown') {
     if (!inTravelMode) {
       startCountdown(data.timestamp, data.duration);
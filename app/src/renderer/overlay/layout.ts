@@ -0,0 +1,191 @@
+import { ipcRenderer } from 'electron';
+import {
+  getDefaultOverlayLayout,
+  MAX_OVERLAY_SCALE,
+  MIN_OVERLAY_OPACITY,
+  MIN_OVERLAY_SCALE,
+  OVERLAY_ELEMENT_IDS,
+  OVERLAY_ELEMENT_LABELS,
+} from '../../shared/overlayLayout';
+import type { OverlayEditState, OverlayElementId, OverlayLayout } from '../../shared/overlayLayout';
+import { isOverlayThemeId, OVERLAY_THEMES } from '../../shared/themes';
+import type { OverlayThemeId } from '../../shared/themes';
+
+export interface LayoutEditorHooks {
+  // Lets the overlay fill in placeholder content so every element can be placed
+  onEditingChange: (editing: boolean) => void;
+  onThemeChange: (theme: OverlayThemeId) => void;
+}
+
+// Layout editing for the overlay window. The main process owns the layout and toggles edit
+// mode; while editing, elements can be dragged and the toolbar scales, fades and moves them
+// to another display. Every finished change is sent back to be stored.
+
+const elements: Record<OverlayElementId, HTMLElement> = {
+  agentList: document.getElementById('agentList') as HTMLDivElement,
+  countdown: document.getElementById('countdown') as HTMLDivElement,
+  modeIndicator: document.getElementById('modeIndicator') as HTMLDivElement,
+};
+const layoutToolbar = document.getElementById('layoutToolbar') as HTMLDivElement;
+const layoutDisplaySelect = document.getElementById('layoutDisplaySelect') as HTMLSelectElement;
+const layoutThemeSelect = document.getElementById('layoutThemeSelect') as HTMLSelectElement;
+const layoutSelectedLabel = document.getElementById('layoutSelectedLabel') as HTMLSpanElement;
+const layoutScaleInput = document.getElementById('layoutScaleInput') as HTMLInputElement;
+const layoutOpacityInput = document.getElementById('layoutOpacityInput') as HTMLInputElement;
+const layoutResetBtn = document.getElementById('layoutResetBtn') as HTMLButtonElement;
+const layoutDoneBtn = document.getElementById('layoutDoneBtn') as HTMLButtonElement;
+
+let layout: OverlayLayout = getDefaultOverlayLayout();
+let editing = false;
+let selectedId: OverlayElementId = 'agentList';
+let drag: { id: OverlayElementId; offsetX: number; offsetY: number } | null = null;
+
+function applyLayout() {
+  document.body.dataset.theme = layout.theme;
+  for (const id of OVERLAY_ELEMENT_IDS) {
+    const element = elements[id];
+    const { position, scale, opacity } = layout.elements[id];
+    element.style.setProperty('--scale', String(scale));
+    element.style.opacity = String(opacity);
+    element.classList.toggle('positioned', position !== null);
+    if (position) {
+      element.style.setProperty('--x', String(position.x));
+      element.style.setProperty('--y', String(position.y));
+    }
+    element.classList.toggle('selected', editing && id === selectedId);
+  }
+}
+
+function saveLayout() {
+  ipcRenderer.send('overlay-layout', layout);
+}
+
+function syncToolbar() {
+  const { scale, opacity } = layout.elements[selectedId];
+  layoutThemeSelect.value = layout.theme;
+  layoutSelectedLabel.textContent = OVERLAY_ELEMENT_LABELS[selectedId];
+  layoutScaleInput.value = String(scale);
+  layoutOpacityInput.value = String(opacity);
+}
+
+function selectElement(id: OverlayElementId) {
+  selectedId = id;
+  syncToolbar();
+  applyLayout();
+}
+
+function renderDisplayOptions(state: OverlayEditState) {
+  layoutDisplaySelect.innerHTML = '';
+  for (const display of state.displays) {
+    const option = document.createElement('option');
+    option.value = String(display.id);
+    option.textContent = display.primary ? `${display.label} · primary` : display.label;
+    layoutDisplaySelect.appendChild(option);
+  }
+  layoutDisplaySelect.value = String(state.activeDisplayId);
+}
+
+// `max` loses to `min` when an element is larger than the screen
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function attachDragHandlers(id: OverlayElementId) {
+  const element = elements[id];
+  element.addEventListener('pointerdown', (event) => {
+    if (!editing) return;
+    selectElement(id);
+    const rect = element.getBoundingClientRect();
+    drag = { id, offsetX: event.clientX - rect.left, offsetY: event.clientY - rect.top };
+    element.setPointerCapture(event.pointerId);
+    event.preventDefault();
+  });
+  element.addEventListener('pointermove', (event) => {
+    if (!drag || drag.id !== id) return;
+    const rect = element.getBoundingClientRect();
+    // Keep the whole element on screen
+    const left = clamp(event.clientX - drag.offsetX, 0, window.innerWidth - rect.width);
+    const top = clamp(event.clientY - drag.offsetY, 0, window.innerHeight - rect.height);
+    layout.elements[id].position = { x: left / window.innerWidth, y: top / window.innerHeight };
+    applyLayout();
+  });
+  const endDrag = () => {
+    if (drag?.id === id) {
+      drag = null;
+      saveLayout();
+    }
+  };
+  element.addEventListener('pointerup', endDrag);
+  element.addEventListener('pointercancel', endDrag);
+}
+
+function finishEditing() {
+  ipcRenderer.send('overlay-edit', false);
+}
+
+export function initLayoutEditor(hooks: LayoutEditorHooks) {
+  for (const theme of OVERLAY_THEMES) {
+    const option = document.createElement('option');
+    option.value = theme.id;
+    option.textContent = theme.label;
+    layoutThemeSelect.appendChild(option);
+  }
+  layoutScaleInput.min = String(MIN_OVERLAY_SCALE);
+  layoutScaleInput.max = String(MAX_OVERLAY_SCALE);
+  layoutOpacityInput.min = String(MIN_OVERLAY_OPACITY);
+
+  for (const id of OVERLAY_ELEMENT_IDS) {
+    attachDragHandlers(id);
+  }
+
+  layoutScaleInput.addEventListener('input', () => {
+    layout.elements[selectedId].scale = Number(layoutScaleInput.value);
+    applyLayout();
+  });
+  layoutOpacityInput.addEventListener('input', () => {
+    layout.elements[selectedId].opacity = Number(layoutOpacityInput.value);
+    applyLayout();
+  });
+  layoutScaleInput.addEventListener('change', saveLayout);
+  layoutOpacityInput.addEventListener('change', saveLayout);
+  layoutDisplaySelect.addEventListener('change', () => {
+    // The main process moves the window and sends the new state back
+    layout.displayId = Number(layoutDisplaySelect.value);
+    saveLayout();
+  });
+  layoutThemeSelect.addEventListener('change', () => {
+    if (!isOverlayThemeId(layoutThemeSelect.value)) return;
+    layout.theme = layoutThemeSelect.value;
+    applyLayout();
+    hooks.onThemeChange(layout.theme);
+    saveLayout();
+  });
+  layoutResetBtn.addEventListener('click', () => {
+    layout.elements[selectedId] = getDefaultOverlayLayout().elements[selectedId];
+    syncToolbar();
+    applyLayout();
+    saveLayout();
+  });
+  layoutDoneBtn.addEventListener('click', finishEditing);
+  document.addEventListener('keydown', (event) => {
+    if (editing && event.key === 'Escape') finishEditing();
+  });
+
+  ipcRenderer.on('overlay-edit-state', (_event: unknown, state: OverlayEditState) => {
+    const wasEditing = editing;
+    const previousTheme = layout.theme;
+    layout = state.layout;
+    editing = state.editing;
+    document.body.classList.toggle('editing', editing);
+    layoutToolbar.classList.toggle('hidden', !editing);
+    renderDisplayOptions(state);
+    syncToolbar();
+    applyLayout();
+    if (layout.theme !== previousTheme) {
+      hooks.onThemeChange(layout.theme);
+    }
+    if (editing !== wasEditing) {
+      hooks.onEditingChange(editing);
+    }
+  });
+}
@@ -0,0 +1,14 @@
+// How the main process simulates key presses. `dry-run` presses nothing and logs each
+// event with a high-resolution timestamp instead, for rehearsing timing on any machine.
+export type InputBackendName = 'robotjs' | 'xdotool' | 'dry-run';
+
+// `auto` uses robotjs, falling back to xdotool on Linux when robotjs won't load
+export type InputBackendPreference = 'auto' | InputBackendName;
+
+export const INPUT_BACKEND_PREFERENCES: InputBackendPreference[] = ['auto', 'robotjs', 'xdotool', 'dry-run'];
+
+// Sent to the connect window whenever the backend changes
+export interface InputBackendStatus {
+  name: InputBackendName | null; // null when nothing could be loaded
+  detail: string;
+}
@@ -0,0 +1,86 @@
+import { DEFAULT_OVERLAY_THEME, isOverlayThemeId } from './themes';
+import type { OverlayThemeId } from './themes';
+
+// Where the overlay's elements sit and how they look, shared by the overlay window (editing,
+// rendering) and the main process (storage, choosing the display). Positions are fractions
+// of the target display's work area so a layout survives resolution changes and moving
+// between displays.
+
+export type OverlayElementId = 'agentList' | 'countdown' | 'modeIndicator';
+
+export const OVERLAY_ELEMENT_IDS: OverlayElementId[] = ['agentList', 'countdown', 'modeIndicator'];
+
+export const OVERLAY_ELEMENT_LABELS: Record<OverlayElementId, string> = {
+  agentList: 'Agent list',
+  countdown: 'Countdown',
+  modeIndicator: 'Travel indicator',
+};
+
+export interface OverlayElementLayout {
+  // Top-left corner as fractions of the overlay's width and height; null keeps the default spot
+  position: { x: number; y: number } | null;
+  scale: number;
+  opacity: number;
+}
+
+export interface OverlayLayout {
+  displayId: number | null; // null follows the primary display
+  theme: OverlayThemeId;
+  elements: Record<OverlayElementId, OverlayElementLayout>;
+}
+
+// Sent to the overlay window when edit mode is toggled or the displays change
+export interface OverlayDisplayInfo {
+  id: number;
+  label: string;
+  primary: boolean;
+}
+
+export interface OverlayEditState {
+  editing: boolean;
+  layout: OverlayLayout;
+  displays: OverlayDisplayInfo[];
+  activeDisplayId: number; // the display the overlay is on, which differs from the layout's when that one is unplugged
+}
+
+export const MIN_OVERLAY_SCALE = 0.5;
+export const MAX_OVERLAY_SCALE = 3;
+export const MIN_OVERLAY_OPACITY = 0.2;
+
+export function getDefaultOverlayLayout(): OverlayLayout {
+  const elements = {} as Record<OverlayElementId, OverlayElementLayout>;
+  for (const id of OVERLAY_ELEMENT_IDS) {
+    elements[id] = { position: null, scale: 1, opacity: 1 };
+  }
+  return { displayId: null, theme: DEFAULT_OVERLAY_THEME, elements };
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+function normalizeElementLayout(value: unknown): OverlayElementLayout {
+  const element = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof OverlayElementLayout, unknown>>;
+  const position = element.position as { x?: unknown; y?: unknown } | null | undefined;
+  return {
+    position: position && typeof position === 'object'
+      ? { x: clamp(position.x, 0, 1, 0), y: clamp(position.y, 0, 1, 0) }
+      : null,
+    scale: clamp(element.scale, MIN_OVERLAY_SCALE, MAX_OVERLAY_SCALE, 1),
+    opacity: clamp(element.opacity, MIN_OVERLAY_OPACITY, 1, 1),
+  };
+}
+
+// Validate a layout read from disk or IPC; anything unusable falls back to the default
+export function normalizeOverlayLayout(value: unknown): OverlayLayout {
+  const layout = (value && typeof value === 'object' ? value : {}) as { displayId?: unknown; theme?: unknown; elements?: unknown };
+  const elements = (layout.elements && typeof layout.elements === 'object' ? layout.elements : {}) as Record<string, unknown>;
+  const normalized = getDefaultOverlayLayout();
+  normalized.displayId = typeof layout.displayId === 'number' && Number.isFinite(layout.displayId) ? layout.displayId : null;
+  normalized.theme = isOverlayThemeId(layout.theme) ? layout.theme : DEFAULT_OVERLAY_THEME;
+  for (const id of OVERLAY_ELEMENT_IDS) {
+    normalized.elements[id] = normalizeElementLayout(elements[id]);
+  }
+  return normalized;
+}
@@ -0,0 +1,104 @@
+// Scripted key sequences, shared by the connect window (editor, storage) and the main
+// process (execution). Steps run in order: key steps happen at the current offset and
+// `wait` moves the offset forward, so "hold W, tap space at +2.9 s, tap 1 at +3.4 s" is
+// keydown w, wait 2900, tap space, wait 500, tap 1.
+
+export type KeyStepType = 'keydown' | 'keyup' | 'tap';
+
+export type SequenceStep =
+  | { type: KeyStepType; key: string } // key is a robotjs key name
+  | { type: 'wait'; ms: number };
+
+export interface ActionSequence {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+}
+
+// What a sequence can be assigned to: the starter's action, everyone else's action at the
+// start, and the action when travel is executed
+export type SequenceSlot = 'starter' | 'follower' | 'travel';
+
+export const SEQUENCE_SLOTS: SequenceSlot[] = ['starter', 'follower', 'travel'];
+
+// Sequence id per slot; null keeps the built-in action
+export type SequenceAssignments = Record<SequenceSlot, string | null>;
+
+// The steps each slot runs, as sent to the main process; null keeps the built-in action
+export type ResolvedSequences = Record<SequenceSlot, SequenceStep[] | null>;
+
+// Sent to the connect window when an action's first key event fires; both times are this
+// machine's clock
+export interface ActionFiredEvent {
+  slot: SequenceSlot;
+  targetAt: number; // when the event was scheduled for
+  firedAt: number; // when it actually ran, with sub-millisecond precision
+}
+
+export interface TimedKeyStep {
+  atMs: number; // from the start of the sequence
+  type: KeyStepType;
+  key: string;
+}
+
+export const MAX_SEQUENCE_STEPS = 50;
+export const MAX_WAIT_MS = 60000;
+
+const KEY_STEP_TYPES: string[] = ['keydown', 'keyup', 'tap'];
+
+// Resolve waits into offsets from the start of the sequence
+export function getStepTimeline(steps: SequenceStep[]): TimedKeyStep[] {
+  const timeline: TimedKeyStep[] = [];
+  let atMs = 0;
+  for (const step of steps) {
+    if (step.type === 'wait') {
+      atMs += step.ms;
+    } else {
+      timeline.push({ atMs, type: step.type, key: step.key });
+    }
+  }
+  return timeline;
+}
+
+export function getSequenceDurationMs(steps: SequenceStep[]): number {
+  return steps.reduce((total, step) => (step.type === 'wait' ? total + step.ms : total), 0);
+}
+
+function normalizeStep(value: unknown): SequenceStep | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const step = value as { type?: unknown; key?: unknown; ms?: unknown };
+  if (step.type === 'wait') {
+    const ms = Number(step.ms);
+    return Number.isFinite(ms) ? { type: 'wait', ms: Math.min(MAX_WAIT_MS, Math.max(0, Math.round(ms))) } : null;
+  }
+  if (typeof step.type === 'string' && KEY_STEP_TYPES.includes(step.type) && typeof step.key === 'string' && step.key) {
+    return { type: step.type as KeyStepType, key: step.key };
+  }
+  return null;
+}
+
+// Validate a sequence read from storage or IPC; invalid steps are dropped
+export function normalizeSequence(value: unknown): ActionSequence | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const sequence = value as { id?: unknown; name?: unknown; steps?: unknown };
+  if (typeof sequence.id !== 'string' || !sequence.id || !Array.isArray(sequence.steps)) {
+    return null;
+  }
+  const steps = sequence.steps
+    .map(normalizeStep)
+    .filter((step): step is SequenceStep => step !== null)
+    .slice(0, MAX_SEQUENCE_STEPS);
+  const name = typeof sequence.name === 'string' && sequence.name.trim() ? sequence.name.trim() : 'Untitled';
+  return { id: sequence.id, name, steps };
+}
+
+export function normalizeSteps(value: unknown): SequenceStep[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  return normalizeSequence({ id: 'ipc', steps: value })?.steps ?? null;
+}
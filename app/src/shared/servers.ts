@@ -0,0 +1,52 @@
+// Saved servers the connect window can switch between, e.g. a community's self-hosted one
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string; // WebSocket endpoint, normalized by toWebSocketUrl
+  room?: string; // pre-filled into the room code field
+  token?: string; // sent in hello for servers that set ACCESS_TOKEN
+}
+
+// Result of the connection test, run by the main process against the profile's /health
+export interface ServerTestResult {
+  ok: boolean;
+  latencyMs?: number;
+  version?: string;
+  protocolVersion?: number;
+  clients?: number;
+  rooms?: number;
+  error?: string;
+}
+
+// Accepts ws(s):// or http(s):// URLs, with or without the /ws path; a bare host gets wss://.
+// Returns null when the URL can't be used.
+export function toWebSocketUrl(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    const url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `wss://${trimmed}`);
+    if (url.protocol === 'http:') url.protocol = 'ws:';
+    if (url.protocol === 'https:') url.protocol = 'wss:';
+    if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+      return null;
+    }
+    if (url.pathname === '' || url.pathname === '/') {
+      url.pathname = '/ws';
+    }
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// The server's /health endpoint next to its WebSocket endpoint
+export function toHealthUrl(wsUrl: string): string {
+  const url = new URL(wsUrl);
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.pathname = `${url.pathname.replace(/\/ws\/?$/, '')}/health`;
+  url.search = '';
+  url.hash = '';
+  return url.toString();
+}
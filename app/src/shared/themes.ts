@@ -0,0 +1,60 @@
+import { AGENT_COLOR_HEX } from 'shd-overlay-protocol';
+import type { AgentColor } from 'shd-overlay-protocol';
+
+// Overlay themes. The overlay styles itself from `body[data-theme]`; the connect window only
+// needs the agent colour palette so both windows show each agent in the same colour.
+export type OverlayThemeId = 'isac' | 'minimal' | 'high-contrast' | 'colorblind';
+
+export const DEFAULT_OVERLAY_THEME: OverlayThemeId = 'isac';
+
+export const OVERLAY_THEMES: Array<{ id: OverlayThemeId; label: string }> = [
+  { id: 'isac', label: 'ISAC orange' },
+  { id: 'minimal', label: 'Minimal' },
+  { id: 'high-contrast', label: 'High contrast' },
+  { id: 'colorblind', label: 'Colour-blind safe' },
+];
+
+export const AGENT_COLOR_LABELS: Record<AgentColor, string> = {
+  orange: 'Orange',
+  sky: 'Sky blue',
+  green: 'Green',
+  yellow: 'Yellow',
+  blue: 'Blue',
+  red: 'Red',
+  purple: 'Purple',
+  white: 'White',
+};
+
+const AGENT_COLOR_PALETTES: Record<OverlayThemeId, Record<AgentColor, string>> = {
+  'isac': AGENT_COLOR_HEX,
+  'minimal': AGENT_COLOR_HEX,
+  'high-contrast': {
+    orange: '#ff8c00',
+    sky: '#00e5ff',
+    green: '#00ff5a',
+    yellow: '#ffff00',
+    blue: '#5c9dff',
+    red: '#ff3b3b',
+    purple: '#ff4dff',
+    white: '#ffffff',
+  },
+  // Okabe–Ito, which stays distinguishable with the common forms of colour blindness
+  'colorblind': {
+    orange: '#e69f00',
+    sky: '#56b4e9',
+    green: '#009e73',
+    yellow: '#f0e442',
+    blue: '#0072b2',
+    red: '#d55e00',
+    purple: '#cc79a7',
+    white: '#f0f0f0',
+  },
+};
+
+export function isOverlayThemeId(value: unknown): value is OverlayThemeId {
+  return OVERLAY_THEMES.some((theme) => theme.id === value);
+}
+
+export function getAgentColorHex(theme: OverlayThemeId, color: AgentColor | null | undefined): string | null {
+  return color ? AGENT_COLOR_PALETTES[theme][color] ?? null : null;
+}
@@ -0,0 +1,330 @@
+// Bump when a message changes shape in a way older apps or servers can't handle.
+// The server only accepts clients whose `hello` carries the same version.
+// 2: room snapshots gained clientRtt, clockOffset, settings and colors; added set_color
+// 3: heartbeat RTT and last-seen updates moved from ready_state to latency
+export const PROTOCOL_VERSION = 3;
+
+export const MAX_AGENTS = 8;
+export const MAX_NAME_LENGTH = 32;
+
+// Colours agents pick to tell each other apart. Clients may restyle them per theme, but
+// should keep each one recognisably the same hue so a squad agrees on who is who.
+export const AGENT_COLORS = ['orange', 'sky', 'green', 'yellow', 'blue', 'red', 'purple', 'white'] as const;
+export type AgentColor = typeof AGENT_COLORS[number];
+
+// Default rendering of each colour, on a dark background
+export const AGENT_COLOR_HEX: Record<AgentColor, string> = {
+  orange: '#ff6b35',
+  sky: '#56b4e9',
+  green: '#3fb950',
+  yellow: '#f0c43c',
+  blue: '#4c7dff',
+  red: '#f85149',
+  purple: '#bc8cff',
+  white: '#e6edf3',
+};
+
+// Per-agent maps are keyed by agent id (1..MAX_AGENTS); every slot is always present
+export type AgentRecord<T> = Record<number, T>;
+
+// Spectators watch a room without taking an agent slot and can't change anything in it
+export type ClientRole = 'agent' | 'spectator';
+
+// Who may send start_request, travel_request, execute_travel and reset_raid
+export type LobbyPolicy = 'leader_only' | 'anyone';
+
+// Per-lobby timing. The starter acts `starterOffsetMs` after the countdown reaches zero;
+// everyone else acts at a personal offset from the starter, set in their own app.
+export interface LobbySettings {
+  countdownMs: number;
+  starterOffsetMs: number;
+}
+
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = {
+  countdownMs: 3000,
+  starterOffsetMs: 0,
+};
+
+export const LOBBY_SETTINGS_LIMITS: Record<keyof LobbySettings, { min: number; max: number }> = {
+  countdownMs: { min: 1000, max: 30000 },
+  starterOffsetMs: { min: -1000, max: 10000 },
+};
+
+export interface RunSplit {
+  name: string;
+  agentId: number;
+  elapsedMs: number; // since the run started
+}
+
+// ── Client → Server ──────────────────────────────────────────
+
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  appVersion?: string;
+  role?: ClientRole; // defaults to 'agent'
+  token?: string; // required when the server sets an access token
+}
+
+export interface CreateRoomMessage {
+  type: 'create_room';
+}
+
+export interface JoinRoomMessage {
+  type: 'join_room';
+  room: string;
+  resumeToken?: string;
+}
+
+export interface SetNameMessage {
+  type: 'set_name';
+  name: string;
+}
+
+export interface SetColorMessage {
+  type: 'set_color';
+  color: AgentColor;
+}
+
+export interface ReadyMessage {
+  type: 'ready';
+  value: boolean;
+}
+
+export interface StartRequestMessage {
+  type: 'start_request';
+}
+
+export interface TravelRequestMessage {
+  type: 'travel_request';
+}
+
+export interface ExecuteTravelRequestMessage {
+  type: 'execute_travel';
+}
+
+export interface ResetRaidMessage {
+  type: 'reset_raid';
+}
+
+// Leader only: hand the leader role to another agent in the room
+export interface TransferLeaderMessage {
+  type: 'transfer_leader';
+  agentId: number;
+}
+
+// Leader only
+export interface SetLobbyPolicyMessage {
+  type: 'set_lobby_policy';
+  policy: LobbyPolicy;
+}
+
+// Change some or all lobby settings; same permission as start_request
+export interface UpdateLobbySettingsMessage {
+  type: 'update_lobby_settings';
+  countdownMs?: number;
+  starterOffsetMs?: number;
+}
+
+// Record a named checkpoint in the active run; unnamed splits are numbered
+export interface SplitMessage {
+  type: 'split';
+  name?: string;
+}
+
+export interface FinishRunMessage {
+  type: 'finish';
+}
+
+export interface AbortRunMessage {
+  type: 'abort';
+}
+
+// The client's own clock-sync result, shared so squadmates can see who is on a bad connection
+export interface ClockReportMessage {
+  type: 'clock_report';
+  rtt: number; // ms
+  offset: number; // serverTime - localTime, in ms
+}
+
+export interface PingMessage {
+  type: 'ping';
+  clientTime?: number;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | CreateRoomMessage
+  | JoinRoomMessage
+  | SetNameMessage
+  | SetColorMessage
+  | ReadyMessage
+  | StartRequestMessage
+  | TravelRequestMessage
+  | ExecuteTravelRequestMessage
+  | ResetRaidMessage
+  | TransferLeaderMessage
+  | SetLobbyPolicyMessage
+  | UpdateLobbySettingsMessage
+  | SplitMessage
+  | FinishRunMessage
+  | AbortRunMessage
+  | ClockReportMessage
+  | PingMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+
+// ── Server → Client ──────────────────────────────────────────
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  protocolVersion: number;
+  serverVersion: string;
+  role: ClientRole;
+}
+
+// Per-agent view of a room, carried by agent_assigned, spectating and ready_state
+export interface RoomSnapshot {
+  agents: AgentRecord<boolean>;
+  names: AgentRecord<string>;
+  colors: AgentRecord<AgentColor | null>; // null for empty slots
+  reconnecting: AgentRecord<boolean>;
+  leaderId: number | null; // null only while the room has no agents
+  policy: LobbyPolicy;
+  rtt: AgentRecord<number | null>; // last heartbeat round trip in ms; null until measured
+  lastSeen: AgentRecord<number | null>; // server clock of the agent's last message or heartbeat
+  clientRtt: AgentRecord<number | null>; // from the agent's last clock_report
+  clockOffset: AgentRecord<number | null>; // from the agent's last clock_report
+}
+
+export interface AgentAssignedMessage extends RoomSnapshot {
+  type: 'agent_assigned';
+  agentId: number;
+  room: string;
+  resumeToken: string;
+  resumed: boolean;
+  travelMode: boolean;
+  settings: LobbySettings;
+}
+
+// Sent to a spectator instead of agent_assigned when it joins a room
+export interface SpectatingMessage extends RoomSnapshot {
+  type: 'spectating';
+  room: string;
+  travelMode: boolean;
+  settings: LobbySettings;
+}
+
+export interface ReadyStateMessage extends RoomSnapshot {
+  type: 'ready_state';
+}
+
+// Sent on heartbeats when the measurements change, so they don't rebuild the whole lobby view
+export interface LatencyMessage {
+  type: 'latency';
+  rtt: AgentRecord<number | null>;
+  lastSeen: AgentRecord<number | null>;
+}
+
+export interface CountdownMessage {
+  type: 'countdown';
+  timestamp: number; // server clock
+  duration: number;
+}
+
+export interface StartMessage {
+  type: 'start';
+  timestamp: number; // server clock
+  starterAgentId: number;
+  starterActionAt: number; // server clock: countdown end plus the lobby's starter offset
+}
+
+// Broadcast whenever the lobby settings change
+export interface LobbySettingsMessage {
+  type: 'lobby_settings';
+  settings: LobbySettings;
+}
+
+export interface TravelModeMessage {
+  type: 'travel_mode';
+  active: boolean;
+}
+
+export interface ExecuteTravelMessage {
+  type: 'execute_travel';
+}
+
+export interface ResetMessage {
+  type: 'reset';
+}
+
+export interface RunSplitMessage {
+  type: 'run_split';
+  runId: string;
+  split: RunSplit;
+}
+
+export interface RunFinishedMessage {
+  type: 'run_finished';
+  runId: string;
+  totalMs: number;
+  splits: RunSplit[];
+}
+
+export interface RunAbortedMessage {
+  type: 'run_aborted';
+  runId: string;
+}
+
+// Machine-readable reasons for an `error` reply. `message` is human-readable and may change;
+// clients should branch on `code`.
+export type ErrorCode =
+  | 'INCOMPATIBLE_VERSION' // hello carried a protocol version the server doesn't speak
+  | 'HELLO_REQUIRED' // a message arrived before the hello handshake
+  | 'ALREADY_GREETED' // a second hello on a connection that already sent one
+  | 'UNAUTHORIZED' // hello carried a missing or wrong access token
+  | 'INVALID_PAYLOAD' // not JSON, or a field is missing / has the wrong type
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'INVALID_ROOM_CODE'
+  | 'ROOM_FULL'
+  | 'NOT_ASSIGNED' // the client has no agent slot (hasn't joined a room)
+  | 'NOT_ALL_READY'
+  | 'NOT_IN_TRAVEL_MODE'
+  | 'NOT_LEADER' // the lobby is leader_only and the sender isn't the leader
+  | 'UNKNOWN_AGENT' // transfer_leader named a slot that is empty or held for a reconnect
+  | 'INVALID_SETTINGS' // update_lobby_settings value out of range
+  | 'SPECTATOR_READ_ONLY' // a spectator sent a message that would change the room
+  | 'NO_ACTIVE_RUN'; // split / finish / abort with no run in progress
+
+export interface ErrorMessage {
+  type: 'error';
+  code: ErrorCode;
+  message: string;
+  requestType?: string; // type of the client message that caused the error, when known
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp: number;
+  clientTime?: number;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | AgentAssignedMessage
+  | SpectatingMessage
+  | ReadyStateMessage
+  | LatencyMessage
+  | CountdownMessage
+  | StartMessage
+  | LobbySettingsMessage
+  | TravelModeMessage
+  | ExecuteTravelMessage
+  | ResetMessage
+  | RunSplitMessage
+  | RunFinishedMessage
+  | RunAbortedMessage
+  | ErrorMessage
+  | PongMessage;
+
+export type ServerMessageType = ServerMessage['type'];
@@ -0,0 +1,191 @@
+import { AGENT_COLORS, PROTOCOL_VERSION } from './messages';
+import type { ClientMessage, ClientMessageType, ErrorCode, ServerMessage, ServerMessageType } from './messages';
+
+type Fields = Record<string, unknown>;
+type FieldCheck = (value: unknown) => boolean;
+
+const isString: FieldCheck = (value) => typeof value === 'string';
+const isBoolean: FieldCheck = (value) => typeof value === 'boolean';
+const isNumber: FieldCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isAgentId: FieldCheck = (value) => Number.isInteger(value) && (value as number) >= 1;
+
+function objectOf(schema: Record<string, FieldCheck>): FieldCheck {
+  return (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.entries(schema).every(([field, check]) => check((value as Fields)[field]));
+}
+
+function arrayOf(check: FieldCheck): FieldCheck {
+  return (value) => Array.isArray(value) && value.every(check);
+}
+
+function optional(check: FieldCheck): FieldCheck {
+  return (value) => value === undefined || check(value);
+}
+
+function nullable(check: FieldCheck): FieldCheck {
+  return (value) => value === null || check(value);
+}
+
+function oneOf(...allowed: string[]): FieldCheck {
+  return (value) => typeof value === 'string' && allowed.includes(value);
+}
+
+// JSON turns the numeric agent keys into strings, so only the values are checked
+function agentRecordOf(check: FieldCheck): FieldCheck {
+  return (value) =>
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every(check);
+}
+
+const isLobbyPolicy = oneOf('leader_only', 'anyone');
+const isClientRole = oneOf('agent', 'spectator');
+const isAgentColor = oneOf(...AGENT_COLORS);
+const isRunSplit = objectOf({ name: isString, agentId: isAgentId, elapsedMs: isNumber });
+
+const isLobbySettings = objectOf({ countdownMs: isNumber, starterOffsetMs: isNumber });
+
+const ROOM_SNAPSHOT_SCHEMA: Record<string, FieldCheck> = {
+  agents: agentRecordOf(isBoolean),
+  names: agentRecordOf(isString),
+  colors: agentRecordOf(nullable(isAgentColor)),
+  reconnecting: agentRecordOf(isBoolean),
+  leaderId: nullable(isAgentId),
+  policy: isLobbyPolicy,
+  rtt: agentRecordOf(nullable(isNumber)),
+  lastSeen: agentRecordOf(nullable(isNumber)),
+  clientRtt: agentRecordOf(nullable(isNumber)),
+  clockOffset: agentRecordOf(nullable(isNumber)),
+};
+
+// Every message type lists the checks for its fields; unknown extra fields are ignored
+const CLIENT_SCHEMAS: Record<ClientMessageType, Record<string, FieldCheck>> = {
+  hello: {
+    protocolVersion: isNumber,
+    appVersion: optional(isString),
+    role: optional(isClientRole),
+    token: optional(isString),
+  },
+  create_room: {},
+  join_room: { room: isString, resumeToken: optional(isString) },
+  set_name: { name: isString },
+  set_color: { color: isAgentColor },
+  ready: { value: isBoolean },
+  start_request: {},
+  travel_request: {},
+  execute_travel: {},
+  reset_raid: {},
+  transfer_leader: { agentId: isAgentId },
+  set_lobby_policy: { policy: isLobbyPolicy },
+  update_lobby_settings: { countdownMs: optional(isNumber), starterOffsetMs: optional(isNumber) },
+  split: { name: optional(isString) },
+  finish: {},
+  abort: {},
+  clock_report: { rtt: isNumber, offset: isNumber },
+  ping: { clientTime: optional(isNumber) },
+};
+
+const SERVER_SCHEMAS: Record<ServerMessageType, Record<string, FieldCheck>> = {
+  welcome: { protocolVersion: isNumber, serverVersion: isString, role: isClientRole },
+  agent_assigned: {
+    agentId: isAgentId,
+    room: isString,
+    resumeToken: isString,
+    resumed: isBoolean,
+    travelMode: isBoolean,
+    settings: isLobbySettings,
+    ...ROOM_SNAPSHOT_SCHEMA,
+  },
+  spectating: { room: isString, travelMode: isBoolean, settings: isLobbySettings, ...ROOM_SNAPSHOT_SCHEMA },
+  ready_state: ROOM_SNAPSHOT_SCHEMA,
+  latency: { rtt: ROOM_SNAPSHOT_SCHEMA.rtt, lastSeen: ROOM_SNAPSHOT_SCHEMA.lastSeen },
+  countdown: { timestamp: isNumber, duration: isNumber },
+  start: { timestamp: isNumber, starterAgentId: isAgentId, starterActionAt: isNumber },
+  lobby_settings: { settings: isLobbySettings },
+  travel_mode: { active: isBoolean },
+  execute_travel: {},
+  reset: {},
+  run_split: { runId: isString, split: isRunSplit },
+  run_finished: { runId: isString, totalMs: isNumber, splits: arrayOf(isRunSplit) },
+  run_aborted: { runId: isString },
+  error: { message: isString, code: isString, requestType: optional(isString) },
+  pong: { timestamp: isNumber, clientTime: optional(isNumber) },
+};
+
+export type ValidationErrorCode = Extract<ErrorCode, 'INVALID_PAYLOAD' | 'UNKNOWN_MESSAGE_TYPE'>;
+
+export type ValidationResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ValidationErrorCode; reason: string; type?: string };
+
+function validate<T>(value: unknown, schemas: Record<string, Record<string, FieldCheck>>): ValidationResult<T> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, code: 'INVALID_PAYLOAD', reason: 'Message must be a JSON object' };
+  }
+  const fields = value as Fields;
+  if (typeof fields.type !== 'string') {
+    return { ok: false, code: 'INVALID_PAYLOAD', reason: 'Message is missing a string "type"' };
+  }
+  const type = fields.type;
+  if (!Object.prototype.hasOwnProperty.call(schemas, type)) {
+    return { ok: false, code: 'UNKNOWN_MESSAGE_TYPE', reason: `Unknown message type "${type}"`, type };
+  }
+  for (const [field, check] of Object.entries(schemas[type])) {
+    if (!check(fields[field])) {
+      const reason = fields[field] === undefined
+        ? `"${type}" is missing field "${field}"`
+        : `"${type}" has an invalid "${field}"`;
+      return { ok: false, code: 'INVALID_PAYLOAD', reason, type };
+    }
+  }
+  return { ok: true, message: value as T };
+}
+
+export function validateClientMessage(value: unknown): ValidationResult<ClientMessage> {
+  return validate<ClientMessage>(value, CLIENT_SCHEMAS);
+}
+
+export function validateServerMessage(value: unknown): ValidationResult<ServerMessage> {
+  return validate<ServerMessage>(value, SERVER_SCHEMAS);
+}
+
+export function isClientMessage(value: unknown): value is ClientMessage {
+  return validateClientMessage(value).ok;
+}
+
+export function isServerMessage(value: unknown): value is ServerMessage {
+  return validateServerMessage(value).ok;
+}
+
+function parseJson(data: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(data) as unknown };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// Parse and validate a raw WebSocket frame
+export function parseClientMessage(data: string): ValidationResult<ClientMessage> {
+  const parsed = parseJson(data);
+  if (!parsed.ok) {
+    return { ok: false, code: 'INVALID_PAYLOAD', reason: 'Message is not valid JSON' };
+  }
+  return validateClientMessage(parsed.value);
+}
+
+export function parseServerMessage(data: string): ValidationResult<ServerMessage> {
+  const parsed = parseJson(data);
+  if (!parsed.ok) {
+    return { ok: false, code: 'INVALID_PAYLOAD', reason: 'Message is not valid JSON' };
+  }
+  return validateServerMessage(parsed.value);
+}
+
+export function isCompatibleProtocolVersion(version: unknown): boolean {
+  return version === PROTOCOL_VERSION;
+}
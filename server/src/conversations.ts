@@ -0,0 +1,98 @@
+// Rolling chat history for the ISAC bot, one per channel or DM, so follow-ups like "move it
+// to 9 instead" have the previous turns as context. A turn is the user's message plus
+// everything ISAC sent back for it (its reply, tool calls and their results); turns are only
+// ever dropped whole, so a tool result is never left without the call it answers.
+
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type ChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface Turn {
+  messages: ChatMessage[];
+  tokens: number;
+}
+
+interface Conversation {
+  turns: Turn[];
+  tokens: number;
+  lastActivity: number;
+}
+
+const HISTORY_TOKEN_BUDGET = Number(process.env.DISCORD_HISTORY_TOKENS) || 3000;
+const HISTORY_TTL_MS = Number(process.env.DISCORD_HISTORY_TTL_MS) || 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Rough English average; close enough for a budget without shipping a tokenizer
+const CHARS_PER_TOKEN = 4;
+// Per-message overhead for the role and framing
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const conversations = new Map<string, Conversation>();
+
+function estimateTokens(message: ChatMessage): number {
+  let chars = message.content?.length ?? 0;
+  if (message.role === 'assistant') {
+    for (const call of message.tool_calls ?? []) {
+      chars += call.function.name.length + call.function.arguments.length;
+    }
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function isExpired(conversation: Conversation, now: number): boolean {
+  return now - conversation.lastActivity > HISTORY_TTL_MS;
+}
+
+// Oldest first, ready to go between the system prompt and the new message
+export function getHistory(key: string): ChatMessage[] {
+  const conversation = conversations.get(key);
+  if (!conversation) {
+    return [];
+  }
+  if (isExpired(conversation, Date.now())) {
+    conversations.delete(key);
+    return [];
+  }
+  return conversation.turns.flatMap((turn) => turn.messages);
+}
+
+export function appendTurn(key: string, messages: ChatMessage[]) {
+  if (messages.length === 0) {
+    return;
+  }
+  const now = Date.now();
+  let conversation = conversations.get(key);
+  if (!conversation || isExpired(conversation, now)) {
+    conversation = { turns: [], tokens: 0, lastActivity: now };
+    conversations.set(key, conversation);
+  }
+  const tokens = messages.reduce((sum, message) => sum + estimateTokens(message), 0);
+  conversation.turns.push({ messages, tokens });
+  conversation.tokens += tokens;
+  conversation.lastActivity = now;
+
+  // Drop the oldest turns until it fits; a single turn over budget is dropped too
+  while (conversation.tokens > HISTORY_TOKEN_BUDGET && conversation.turns.length > 0) {
+    conversation.tokens -= conversation.turns.shift()!.tokens;
+  }
+  if (conversation.turns.length === 0) {
+    conversations.delete(key);
+  }
+}
+
+// Drop idle conversations so channels that went quiet don't hold memory forever
+const sweepTimer = setInterval(() => {
+  const now = Date.now();
+  for (const [key, conversation] of conversations) {
+    if (isExpired(conversation, now)) {
+      conversations.delete(key);
+    }
+  }
+}, SWEEP_INTERVAL_MS);
+sweepTimer.unref();
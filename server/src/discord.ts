@@ -1,33 +1,240 @@
 import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
   Client,
+  ComponentType,
   GatewayIntentBits,
   Events,
   GuildScheduledEventEntityType,
   GuildScheduledEventPrivacyLevel,
+  InteractionContextType,
+  MessageFlags,
+  SlashCommandBuilder,
 } from 'discord.js';
-import type { Message, GuildScheduledEvent } from 'discord.js';
+import type {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  Guild,
+  GuildMember,
+  Message,
+  GuildScheduledEvent,
+} from 'discord.js';
+import {
+  canManageEvent,
+  canUseEventAction,
+  forgetEventOwner,
+  loadEventAccess,
+  loadEventOwners,
+  recordEventOwner,
+} from './eventAccess';
+import type { AccessMember, EventAction } from './eventAccess';
+import { appendTurn, getHistory } from './conversations';
+import type { ChatMessage } from './conversations';
+import { createProviderFromEnv } from './llm';
+import type { Completion, LLMProvider, ToolDefinition } from './llm';
 
 // ── Types ────────────────────────────────────────────────────
 
-interface AIToolCall {
-  function: { name: string; arguments: string };
+interface BotLogger {
+  info: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+// Fields for creating or editing an event; on edit, only the provided ones change
+interface EventDetails {
+  title?: string;
+  description?: string;
+  startTime?: Date;
+  durationHours?: number;
+}
+
+// A scheduled event as plain data, so the bot's logic doesn't need a live guild
+export interface EventInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  startTime: number;
+  endTime: number | null;
+  creatorId: string | null; // who made it in Discord; null when the bot did
+  url: string;
+}
+
+export interface EventFields {
+  name: string;
+  description: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+// The guild operations the bot uses. createGuildGateway wraps a real guild; a test can pass
+// an in-memory one.
+export interface GuildGateway {
+  listUpcomingEvents: () => Promise<EventInfo[]>;
+  fetchEvent: (eventId: string) => Promise<EventInfo | null>; // null when it doesn't exist
+  createEvent: (fields: EventFields) => Promise<EventInfo>;
+  editEvent: (eventId: string, fields: Partial<EventFields>) => Promise<EventInfo>;
+  deleteEvent: (eventId: string) => Promise<void>;
+  fetchMember: (userId: string) => Promise<AccessMember | null>; // null when not in the guild
+}
+
+export type ConfirmationDecision = 'confirmed' | 'cancelled' | 'expired';
+
+// A Confirm/Cancel prompt posted in reply to the requester
+export interface ConfirmationPrompt {
+  content: string; // what was posted
+  decision: Promise<ConfirmationDecision>;
+  // Replaces the prompt with the outcome once the decision has been acted on
+  settle: (outcome: string) => Promise<void>;
 }
 
-interface AIResponse {
-  toolCalls: AIToolCall[];
-  textContent: string | null;
+// A message sent to ISAC. fromDiscordMessage wraps a real one; a test can script its own.
+export interface IncomingMessage {
+  authorId: string;
+  authorTag: string; // for logs
+  speaker: string; // display name, to tell agents apart in a shared channel
+  channelId: string;
+  content: string; // with the mention of the bot removed
+  guild: GuildGateway | null; // null in DMs
+  reply: (content: string) => Promise<void>;
+  sendTyping: () => Promise<void>;
+  askConfirmation: (summary: string, confirmLabel: string) => Promise<ConfirmationPrompt>;
 }
 
 // ── Constants ────────────────────────────────────────────────
 
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
-const KIMI_MODEL = 'moonshotai/kimi-k2';
+const DEFAULT_TIMEZONE = 'America/New_York';
+const DEFAULT_DURATION_HOURS = 1;
+const HOUR_MS = 3600000;
+// Discord's limits for scheduled events and autocomplete
+const MAX_EVENT_NAME_LENGTH = 100;
+const MAX_EVENT_DESCRIPTION_LENGTH = 1000;
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+// How long the requester has to confirm an edit or delete the AI asked for
+const CONFIRM_TIMEOUT_MS = 2 * 60 * 1000;
+const CONFIRM_BUTTON_ID = 'event-confirm';
+const CANCEL_BUTTON_ID = 'event-cancel';
+
+function getTimezone(): string {
+  return process.env.DISCORD_TIMEZONE || DEFAULT_TIMEZONE;
+}
+
+// ── Time parsing ─────────────────────────────────────────────
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getZonedParts(timestamp: number, tz: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Wall-clock time in `tz` as a Date. The second pass corrects the offset across a DST change.
+function zonedTimeToDate(parts: ZonedParts, tz: string): Date {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offsetAt = (timestamp: number) => {
+    const zoned = getZonedParts(timestamp, tz);
+    const zonedWall = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+    return zonedWall - Math.floor(timestamp / 1000) * 1000;
+  };
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+function to24Hour(hour: number, meridiem: string | undefined): number | null {
+  if (!meridiem) {
+    return hour <= 23 ? hour : null;
+  }
+  if (hour < 1 || hour > 12) {
+    return null;
+  }
+  return (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+}
+
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2})(?::(\d{2}))?(?::(\d{2}))?\s*(am|pm)?$/i;
+const TIME_ONLY_PATTERN = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i;
+
+// Accepts "2026-03-01 21:00", "2026-03-01 9pm" or "21:00"/"9pm" (the next time it comes round)
+// in `tz`, or any ISO 8601 timestamp with an offset. Returns null for anything else.
+function parseEventTime(input: string, tz: string): Date | null {
+  const text = input.trim();
+
+  const dateTime = DATE_TIME_PATTERN.exec(text);
+  if (dateTime) {
+    const hour = to24Hour(Number(dateTime[4]), dateTime[7]);
+    const parts: ZonedParts = {
+      year: Number(dateTime[1]),
+      month: Number(dateTime[2]),
+      day: Number(dateTime[3]),
+      hour: hour ?? 0,
+      minute: Number(dateTime[5] ?? 0),
+      second: Number(dateTime[6] ?? 0),
+    };
+    // Reject dates that roll over, like February 30th
+    const check = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+    if (hour === null || parts.minute > 59 || parts.second > 59 || check.getUTCMonth() !== parts.month - 1 || check.getUTCDate() !== parts.day) {
+      return null;
+    }
+    return zonedTimeToDate(parts, tz);
+  }
+
+  const timeOnly = TIME_ONLY_PATTERN.exec(text);
+  if (timeOnly) {
+    const hour = to24Hour(Number(timeOnly[1]), timeOnly[3]);
+    const minute = Number(timeOnly[2] ?? 0);
+    if (hour === null || minute > 59) {
+      return null;
+    }
+    const today = getZonedParts(Date.now(), tz);
+    const candidate = zonedTimeToDate({ ...today, hour, minute, second: 0 }, tz);
+    if (candidate.getTime() > Date.now()) {
+      return candidate;
+    }
+    const tomorrow = getZonedParts(candidate.getTime() + 24 * HOUR_MS, tz);
+    return zonedTimeToDate({ ...tomorrow, hour, minute, second: 0 }, tz);
+  }
+
+  // Full ISO timestamps carry their own offset
+  if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    return null;
+  }
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatEventTime(event: EventInfo, tz: string): string {
+  return new Date(event.startTime).toLocaleString('en-US', { timeZone: tz, dateStyle: 'medium', timeStyle: 'short' });
+}
 
 // ── Tool definitions ─────────────────────────────────────────
 
-const TOOLS = [
+const TOOLS: ToolDefinition[] = [
   {
-    type: 'function' as const,
+    type: 'function',
     function: {
       name: 'create_event',
       description: 'Create a new scheduled event',
@@ -50,7 +257,7 @@ const TOOLS = [
     },
   },
   {
-    type: 'function' as const,
+    type: 'function',
     function: {
       name: 'edit_event',
       description: 'Edit an existing event. Only provided fields will be updated.',
@@ -67,7 +274,7 @@ const TOOLS = [
     },
   },
   {
-    type: 'function' as const,
+    type: 'function',
     function: {
       name: 'delete_event',
       description: 'Delete an existing event',
@@ -81,7 +288,7 @@ const TOOLS = [
     },
   },
   {
-    type: 'function' as const,
+    type: 'function',
     function: {
       name: 'view_events',
       description: 'View all currently tracked events',
@@ -95,14 +302,14 @@ const TOOLS = [
 
 // ── System prompt builder ────────────────────────────────────
 
-function buildSystemPrompt(events: GuildScheduledEvent[]): string {
-  const tz = process.env.DISCORD_TIMEZONE || 'America/New_York';
+function buildSystemPrompt(events: EventInfo[]): string {
+  const tz = getTimezone();
   const now = new Date().toLocaleString('en-US', { timeZone: tz, dateStyle: 'full', timeStyle: 'long' });
 
   let eventsContext = '';
   if (events.length > 0) {
     const lines = events.map((e) => {
-      const unix = Math.floor(e.scheduledStartTimestamp! / 1000);
+      const unix = Math.floor(e.startTime / 1000);
       return `- ID: ${e.id} | Title: "${e.name}" | Time: <t:${unix}:F> (unix ${unix})`;
     });
     eventsContext = `\n\nCurrently scheduled events:\n${lines.join('\n')}`;
@@ -131,6 +338,8 @@ When an agent wants to create, edit, delete, or view events, use the appropriate
 
 When editing or deleting, match the agent's description to the most likely event from the scheduled events list.
 
+You remember the recent conversation in this channel, including the results of your tools, so use it to resolve follow-ups like "move it to 9 instead". In server channels several agents may talk to you; each of their messages starts with the agent's name. Edits and deletes wait for the agent to confirm them, so a tool result saying a change is awaiting confirmation means it has not happened yet.
+
 IMPORTANT — Timezone handling for event_time:
 - The community's default timezone is ${tz}.
 - If the agent specifies a timezone (e.g. "9pm EST", "8pm PST", "7pm CT"), use that timezone in the ISO 8601 offset (e.g. -05:00 for EST, -08:00 for PST, -06:00 for CST).
@@ -143,242 +352,742 @@ The current date/time is: ${now} (${tz})${eventsContext}`;
 // ── AI caller ────────────────────────────────────────────────
 
 async function callAI(
+  provider: LLMProvider,
   content: string,
-  apiKey: string,
-  events: GuildScheduledEvent[],
-  log: { info: (...args: unknown[]) => void; warn: (...args: unknown[]) => void; error: (...args: unknown[]) => void },
-): Promise<AIResponse> {
+  history: ChatMessage[],
+  events: EventInfo[],
+  log: BotLogger,
+): Promise<Completion> {
   try {
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: KIMI_MODEL,
-        messages: [
-          { role: 'system', content: buildSystemPrompt(events) },
-          { role: 'user', content },
-        ],
-        tools: TOOLS,
-        tool_choice: 'auto',
-      }),
+    return await provider.complete({
+      messages: [
+        { role: 'system', content: buildSystemPrompt(events) },
+        ...history,
+        { role: 'user', content },
+      ],
+      tools: TOOLS,
     });
+  } catch (err) {
+    log.error(`[Discord] Failed to call ${provider.name}: ${err}`);
+    return { toolCalls: [], textContent: null };
+  }
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      log.error(`[Discord] OpenRouter API error: ${response.status} ${errorText}`);
-      return { toolCalls: [], textContent: null };
+// ── Guild gateway ────────────────────────────────────────────
+
+function toEventInfo(event: GuildScheduledEvent): EventInfo {
+  return {
+    id: event.id,
+    name: event.name,
+    description: event.description,
+    startTime: event.scheduledStartTimestamp!,
+    endTime: event.scheduledEndTimestamp,
+    creatorId: event.creatorId && event.creatorId !== event.client.user.id ? event.creatorId : null,
+    url: event.url,
+  };
+}
+
+function toAccessMember(member: GuildMember): AccessMember {
+  return {
+    id: member.id,
+    roles: member.roles.cache.map((role) => ({ id: role.id, name: role.name })),
+    hasPermission: (permission) => member.permissions.has(permission),
+  };
+}
+
+export function createGuildGateway(guild: Guild): GuildGateway {
+  return {
+    listUpcomingEvents: async () => {
+      const fetched = await guild.scheduledEvents.fetch();
+      return [...fetched.filter((e) => e.isScheduled()).values()].map(toEventInfo);
+    },
+    fetchEvent: async (eventId) => {
+      // Without an ID, fetch() would return every event
+      if (!eventId) return null;
+      try {
+        return toEventInfo(await guild.scheduledEvents.fetch(eventId));
+      } catch {
+        return null;
+      }
+    },
+    createEvent: async (fields) => toEventInfo(await guild.scheduledEvents.create({
+      name: fields.name,
+      description: fields.description,
+      scheduledStartTime: fields.startTime,
+      scheduledEndTime: fields.endTime,
+      privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
+      entityType: GuildScheduledEventEntityType.External,
+      entityMetadata: { location: 'In-game' },
+    })),
+    editEvent: async (eventId, fields) => toEventInfo(await guild.scheduledEvents.edit(eventId, {
+      name: fields.name,
+      description: fields.description,
+      scheduledStartTime: fields.startTime,
+      scheduledEndTime: fields.endTime,
+    })),
+    deleteEvent: async (eventId) => {
+      await guild.scheduledEvents.delete(eventId);
+    },
+    fetchMember: async (userId) => {
+      try {
+        return toAccessMember(await guild.members.fetch(userId));
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// ── Event actions ────────────────────────────────────────────
+// Shared by the AI dispatcher and the /event slash command. Each returns the reply to send.
+
+async function createEvent(
+  guild: GuildGateway,
+  details: EventDetails & { title: string; startTime: Date },
+  requestedBy: { id: string; tag: string },
+  log: BotLogger,
+): Promise<string> {
+  try {
+    const durationHours = details.durationHours || DEFAULT_DURATION_HOURS;
+    const event = await guild.createEvent({
+      name: details.title.slice(0, MAX_EVENT_NAME_LENGTH),
+      description: (details.description || '').slice(0, MAX_EVENT_DESCRIPTION_LENGTH),
+      startTime: details.startTime,
+      endTime: new Date(details.startTime.getTime() + durationHours * HOUR_MS),
+    });
+    log.info(`[Discord] Event created: "${event.name}" at ${details.startTime.toISOString()} by ${requestedBy.tag}`);
+    recordEventOwner(event.id, requestedBy.id).catch((err) => {
+      log.error(`[Discord] Failed to save the owner of event ${event.id}: ${err}`);
+    });
+    return `${event.url}`;
+  } catch (err) {
+    log.error(`[Discord] Failed to create event: ${err}`);
+    return 'Failed to create the event. Please try again.';
+  }
+}
+
+async function editEvent(guild: GuildGateway, eventId: string, details: EventDetails, log: BotLogger): Promise<string> {
+  try {
+    const event = await guild.fetchEvent(eventId);
+    if (!event) {
+      throw new Error('not found');
     }
+    const updates: Partial<EventFields> = {};
+    if (details.title) updates.name = details.title.slice(0, MAX_EVENT_NAME_LENGTH);
+    if (details.description) updates.description = details.description.slice(0, MAX_EVENT_DESCRIPTION_LENGTH);
+    if (details.startTime || details.durationHours) {
+      // Keep the event's current length unless a new one is given
+      const startTime = details.startTime ?? new Date(event.startTime);
+      const currentDurationMs = event.endTime ? event.endTime - event.startTime : DEFAULT_DURATION_HOURS * HOUR_MS;
+      const durationMs = details.durationHours ? details.durationHours * HOUR_MS : currentDurationMs;
+      updates.startTime = startTime;
+      updates.endTime = new Date(startTime.getTime() + durationMs);
+    }
+    const updated = await guild.editEvent(eventId, updates);
+    log.info(`[Discord] Event edited: "${updated.name}" (${eventId})`);
+    return `Event **${updated.name}** updated!`;
+  } catch (err) {
+    log.error(`[Discord] Failed to edit event ${eventId}: ${err}`);
+    return "ISAC couldn't find or update that event. It may no longer exist.";
+  }
+}
 
-    const data = (await response.json()) as {
-      choices: Array<{
-        message: {
-          content?: string | null;
-          tool_calls?: AIToolCall[];
-        };
-      }>;
-    };
+async function deleteEvent(guild: GuildGateway, eventId: string, log: BotLogger): Promise<string> {
+  try {
+    const event = await guild.fetchEvent(eventId);
+    if (!event) {
+      throw new Error('not found');
+    }
+    await guild.deleteEvent(eventId);
+    log.info(`[Discord] Event deleted: "${event.name}" (${eventId})`);
+    forgetEventOwner(eventId).catch((err) => {
+      log.error(`[Discord] Failed to remove the owner of event ${eventId}: ${err}`);
+    });
+    return `Event **${event.name}** deleted.`;
+  } catch (err) {
+    log.error(`[Discord] Failed to delete event ${eventId}: ${err}`);
+    return "ISAC couldn't find that event. It may have already been removed.";
+  }
+}
 
-    const msg = data.choices?.[0]?.message;
-    return {
-      toolCalls: msg?.tool_calls ?? [],
-      textContent: msg?.content ?? null,
-    };
+async function listEvents(guild: GuildGateway, log: BotLogger): Promise<string> {
+  try {
+    const upcoming = await guild.listUpcomingEvents();
+    if (upcoming.length === 0) {
+      return "No events are currently scheduled. Tell me about one and I'll create it!";
+    }
+    const lines = upcoming.map((e) => {
+      const unix = Math.floor(e.startTime / 1000);
+      return `**${e.name}** — <t:${unix}:F> (<t:${unix}:R>)`;
+    });
+    return `📋 **Upcoming Events:**\n${lines.join('\n')}`;
   } catch (err) {
-    log.error(`[Discord] Failed to call OpenRouter: ${err}`);
-    return { toolCalls: [], textContent: null };
+    log.error(`[Discord] Failed to fetch events: ${err}`);
+    return 'Failed to retrieve events. Please try again.';
   }
 }
 
-// ── Bot entry point ──────────────────────────────────────────
+// ── Permissions ──────────────────────────────────────────────
+// Rules live in eventAccess.ts; the refusals stay in character.
 
-export function startDiscordBot(log: {
-  info: (...args: unknown[]) => void;
-  warn: (...args: unknown[]) => void;
-  error: (...args: unknown[]) => void;
-}) {
-  const token = process.env.DISCORD_BOT_TOKEN;
-  const openrouterKey = process.env.OPENROUTER_API_KEY;
+const TOOL_ACTIONS: Record<string, EventAction> = {
+  create_event: 'create',
+  edit_event: 'edit',
+  delete_event: 'delete',
+  view_events: 'view',
+};
 
-  if (!token) {
-    log.warn('[Discord] DISCORD_BOT_TOKEN not set, skipping Discord bot startup');
+const SUBCOMMAND_ACTIONS: Record<string, EventAction> = {
+  create: 'create',
+  edit: 'edit',
+  delete: 'delete',
+  list: 'view',
+};
+
+const ACTION_REFUSALS: Record<EventAction, string> = {
+  create: "Negative, Agent. Your SHD clearance doesn't extend to scheduling operations.",
+  edit: "Negative, Agent. Your SHD clearance doesn't extend to changing operations.",
+  delete: "Negative, Agent. Your SHD clearance doesn't extend to cancelling operations.",
+  view: 'Negative, Agent. The operations schedule is above your SHD clearance.',
+};
+
+function describeOwnershipRefusal(event: EventInfo): string {
+  return `Access denied, Agent. ${describeEvent(event)} was scheduled by another agent. Only its creator or command can change it.`;
+}
+
+// ── Slash commands ───────────────────────────────────────────
+
+function buildEventCommand(tz: string) {
+  const timeHint = `e.g. 2026-03-01 21:00 or 9pm (${tz} unless an offset is given)`;
+  return new SlashCommandBuilder()
+    .setName('event')
+    .setDescription('Manage SHD community events')
+    .setContexts(InteractionContextType.Guild)
+    .addSubcommand((sub) => sub
+      .setName('create')
+      .setDescription('Schedule a new event')
+      .addStringOption((option) => option.setName('title').setDescription('Short title for the event').setRequired(true).setMaxLength(MAX_EVENT_NAME_LENGTH))
+      .addStringOption((option) => option.setName('time').setDescription(`When it starts, ${timeHint}`).setRequired(true))
+      .addStringOption((option) => option.setName('description').setDescription('What the event is about').setMaxLength(MAX_EVENT_DESCRIPTION_LENGTH))
+      .addNumberOption((option) => option.setName('duration').setDescription(`Length in hours (default ${DEFAULT_DURATION_HOURS})`).setMinValue(0.25).setMaxValue(24)))
+    .addSubcommand((sub) => sub
+      .setName('edit')
+      .setDescription('Change an existing event; only the options you give are updated')
+      .addStringOption((option) => option.setName('event').setDescription('The event to change').setRequired(true).setAutocomplete(true))
+      .addStringOption((option) => option.setName('title').setDescription('New title').setMaxLength(MAX_EVENT_NAME_LENGTH))
+      .addStringOption((option) => option.setName('time').setDescription(`New start time, ${timeHint}`))
+      .addStringOption((option) => option.setName('description').setDescription('New description').setMaxLength(MAX_EVENT_DESCRIPTION_LENGTH))
+      .addNumberOption((option) => option.setName('duration').setDescription('New length in hours').setMinValue(0.25).setMaxValue(24)))
+    .addSubcommand((sub) => sub
+      .setName('delete')
+      .setDescription('Delete an event')
+      .addStringOption((option) => option.setName('event').setDescription('The event to delete').setRequired(true).setAutocomplete(true)))
+    .addSubcommand((sub) => sub
+      .setName('list')
+      .setDescription('List upcoming events'));
+}
+
+async function handleEventAutocomplete(interaction: AutocompleteInteraction, log: BotLogger) {
+  if (!interaction.guild) {
+    await interaction.respond([]);
     return;
   }
-  if (!openrouterKey) {
-    log.warn('[Discord] OPENROUTER_API_KEY not set, skipping Discord bot startup');
+  const guild = createGuildGateway(interaction.guild);
+  const query = interaction.options.getFocused().trim().toLowerCase();
+  const member = await guild.fetchMember(interaction.user.id);
+  let events: EventInfo[] = [];
+  try {
+    events = await guild.listUpcomingEvents();
+  } catch (err) {
+    log.warn(`[Discord] Failed to fetch events for autocomplete: ${err}`);
+  }
+  const tz = getTimezone();
+  // Only offer events this member is allowed to change
+  const choices = events
+    .filter((e) => member && canManageEvent(member, e))
+    .filter((e) => !query || e.name.toLowerCase().includes(query) || e.id.startsWith(query))
+    .sort((a, b) => a.startTime - b.startTime)
+    .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    .map((e) => ({ name: `${e.name} — ${formatEventTime(e, tz)}`.slice(0, 100), value: e.id }));
+  await interaction.respond(choices);
+}
+
+async function runEventCommand(interaction: ChatInputCommandInteraction, guild: GuildGateway, log: BotLogger): Promise<string> {
+  const tz = getTimezone();
+  const options = interaction.options;
+  const subcommand = options.getSubcommand();
+
+  const action = SUBCOMMAND_ACTIONS[subcommand] ?? 'view';
+  const member = await guild.fetchMember(interaction.user.id);
+  if (!member || !canUseEventAction(member, action)) {
+    return ACTION_REFUSALS[action];
+  }
+
+  // Resolve the time option up front so a typo gets a clear reply instead of a failed API call
+  const timeInput = options.getString('time');
+  const startTime = timeInput ? parseEventTime(timeInput, tz) : undefined;
+  if (timeInput && !startTime) {
+    return `ISAC could not parse the time "${timeInput}". Use a date and time like 2026-03-01 21:00 (${tz}).`;
+  }
+  const details: EventDetails = {
+    title: options.getString('title') ?? undefined,
+    description: options.getString('description') ?? undefined,
+    startTime: startTime ?? undefined,
+    durationHours: options.getNumber('duration') ?? undefined,
+  };
+
+  switch (subcommand) {
+    case 'create':
+      return createEvent(guild, { ...details, title: details.title!, startTime: details.startTime! }, interaction.user, log);
+    case 'edit': {
+      if (!details.title && !details.description && !details.startTime && !details.durationHours) {
+        return 'Negative, Agent. Give ISAC at least one change to make.';
+      }
+      const event = await guild.fetchEvent(options.getString('event', true));
+      if (!event) {
+        return "ISAC couldn't find that event. It may no longer exist.";
+      }
+      if (!canManageEvent(member, event)) {
+        return describeOwnershipRefusal(event);
+      }
+      return editEvent(guild, event.id, details, log);
+    }
+    case 'delete': {
+      const event = await guild.fetchEvent(options.getString('event', true));
+      if (!event) {
+        return "ISAC couldn't find that event. It may have already been removed.";
+      }
+      if (!canManageEvent(member, event)) {
+        return describeOwnershipRefusal(event);
+      }
+      return deleteEvent(guild, event.id, log);
+    }
+    case 'list':
+      return listEvents(guild, log);
+    default:
+      log.warn(`[Discord] Unknown /event subcommand: ${subcommand}`);
+      return 'ISAC does not recognise that command.';
+  }
+}
+
+async function handleEventCommand(interaction: ChatInputCommandInteraction, log: BotLogger) {
+  if (!interaction.guild) {
+    await interaction.reply({ content: 'Events can only be managed from a server channel.', flags: MessageFlags.Ephemeral });
     return;
   }
+  // Scheduled event calls can take longer than Discord's three seconds to acknowledge
+  await interaction.deferReply();
+  try {
+    await interaction.editReply(await runEventCommand(interaction, createGuildGateway(interaction.guild), log));
+  } catch (err) {
+    log.error(`[Discord] /event ${interaction.options.getSubcommand(false)} failed: ${err}`);
+    await interaction.editReply('Signal interference detected, Agent. Please try again.');
+  }
+}
 
-  const client = new Client({
-    intents: [
-      GatewayIntentBits.Guilds,
-      GatewayIntentBits.GuildMessages,
-      GatewayIntentBits.MessageContent,
-      GatewayIntentBits.GuildMembers,
-      GatewayIntentBits.DirectMessages,
-      GatewayIntentBits.GuildScheduledEvents,
-    ],
-  });
+// ── Confirmations ────────────────────────────────────────────
+// The AI picks event IDs by matching a description, so edits and deletes it asks for wait
+// for the requester to confirm what it matched before anything changes.
 
-  client.once(Events.ClientReady, (readyClient) => {
-    log.info(`[Discord] ISAC bot logged in as ${readyClient.user.tag}`);
+function describeEvent(event: EventInfo): string {
+  return `**${event.name}** (<t:${Math.floor(event.startTime / 1000)}:F>)`;
+}
+
+function describeEventChanges(event: EventInfo, details: EventDetails): string[] {
+  const changes: string[] = [];
+  if (details.title && details.title !== event.name) {
+    changes.push(`Title: **${event.name}** → **${details.title}**`);
+  }
+  if (details.startTime && details.startTime.getTime() !== event.startTime) {
+    const from = Math.floor(event.startTime / 1000);
+    const to = Math.floor(details.startTime.getTime() / 1000);
+    changes.push(`Time: <t:${from}:F> → <t:${to}:F>`);
+  }
+  if (details.description && details.description !== event.description) {
+    changes.push(`Description: ${details.description}`);
+  }
+  if (details.durationHours) {
+    changes.push(`Duration: ${details.durationHours}h`);
+  }
+  return changes;
+}
+
+// Asks the requester to confirm and returns what was posted; `apply` runs later, only if they
+// confirm before the prompt expires. `onSettled` gets the outcome for the history.
+async function confirmEventChange(
+  message: IncomingMessage,
+  summary: string,
+  confirmLabel: string,
+  apply: () => Promise<string>,
+  onSettled: (outcome: string) => void,
+  log: BotLogger,
+): Promise<string> {
+  const prompt = await message.askConfirmation(summary, confirmLabel);
+
+  prompt.decision
+    .then(async (decision) => {
+      if (decision === 'confirmed') {
+        const result = await apply();
+        onSettled(`${summary}\n\nConfirmed. ${result}`);
+        await prompt.settle(result);
+      } else if (decision === 'cancelled') {
+        onSettled(`${summary}\n\nCancelled by the agent. No changes were made.`);
+        await prompt.settle(`${summary}\n\nStanding down. No changes were made.`);
+      } else {
+        onSettled(`${summary}\n\nRequest expired. No changes were made.`);
+        await prompt.settle(`${summary}\n\nRequest expired. No changes were made.`);
+      }
+    })
+    .catch((err) => {
+      log.error(`[Discord] Failed to handle confirmation: ${err}`);
+    });
+
+  return prompt.content;
+}
+
+// Posts the summary with Confirm/Cancel buttons that only the message's author can use
+async function askDiscordConfirmation(message: Message, summary: string, confirmLabel: string, log: BotLogger): Promise<ConfirmationPrompt> {
+  const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setCustomId(CONFIRM_BUTTON_ID).setLabel(confirmLabel).setStyle(ButtonStyle.Danger),
+    new ButtonBuilder().setCustomId(CANCEL_BUTTON_ID).setLabel('Cancel').setStyle(ButtonStyle.Secondary),
+  );
+  const content = `${summary}\n\nAwaiting confirmation, Agent. This request expires <t:${Math.floor((Date.now() + CONFIRM_TIMEOUT_MS) / 1000)}:R>.`;
+  const prompt = await message.reply({ content, components: [buttons] });
+
+  const collector = prompt.createMessageComponentCollector({ componentType: ComponentType.Button, time: CONFIRM_TIMEOUT_MS });
+
+  const decision = new Promise<ConfirmationDecision>((resolve) => {
+    collector.on('collect', async (button) => {
+      try {
+        if (button.user.id !== message.author.id) {
+          await button.reply({ content: 'Negative. Only the agent who made this request can confirm it.', flags: MessageFlags.Ephemeral });
+          return;
+        }
+        collector.stop(button.customId);
+        const choice = button.customId === CANCEL_BUTTON_ID ? 'cancelled' : 'confirmed';
+        try {
+          if (choice === 'cancelled') {
+            await button.deferUpdate();
+          } else {
+            await button.update({ content: `${summary}\n\nConfirmed. Executing...`, components: [] });
+          }
+        } finally {
+          // The agent has answered even if acknowledging the click failed
+          resolve(choice);
+        }
+      } catch (err) {
+        log.error(`[Discord] Failed to handle confirmation: ${err}`);
+      }
+    });
+
+    // A button click resolves above. Any other end (timeout, the message or channel deleted,
+    // the client shutting down) counts as expired so the dispatcher isn't left waiting.
+    collector.on('end', (_collected, reason) => {
+      if (reason !== CONFIRM_BUTTON_ID && reason !== CANCEL_BUTTON_ID) resolve('expired');
+    });
   });
 
-  // ── Message handler (AI dispatcher) ──────────────────────
+  return {
+    content,
+    decision,
+    settle: async (outcome) => {
+      await prompt.edit({ content: outcome, components: [] });
+    },
+  };
+}
+
+// Wraps a Discord message for the dispatcher, or returns null when it isn't for ISAC
+export function fromDiscordMessage(message: Message, log: BotLogger): IncomingMessage | null {
+  if (message.author.bot) return null;
+  const botUser = message.client.user;
 
-  client.on(Events.MessageCreate, async (message: Message) => {
-    if (message.author.bot) return;
-    if (!client.user) return;
+  // Respond to DMs or guild mentions
+  if (message.guild && !message.mentions.has(botUser)) return null;
+
+  return {
+    authorId: message.author.id,
+    authorTag: message.author.tag,
+    speaker: message.member?.displayName ?? message.author.displayName,
+    channelId: message.channelId,
+    content: message.content.replace(new RegExp(`<@!?${botUser.id}>`, 'g'), '').trim(),
+    guild: message.guild ? createGuildGateway(message.guild) : null,
+    reply: async (content) => {
+      await message.reply(content);
+    },
+    sendTyping: async () => {
+      if ('sendTyping' in message.channel) {
+        await message.channel.sendTyping();
+      }
+    },
+    askConfirmation: (summary, confirmLabel) => askDiscordConfirmation(message, summary, confirmLabel, log),
+  };
+}
 
-    const isDM = !message.guild;
-    const isMentioned = message.mentions.has(client.user);
+// ── AI dispatcher ────────────────────────────────────────────
 
-    // Respond to DMs or guild mentions
-    if (!isDM && !isMentioned) return;
+export interface DispatcherDeps {
+  provider: LLMProvider;
+  log: BotLogger;
+}
 
-    const content = message.content
-      .replace(new RegExp(`<@!?${client.user.id}>`, 'g'), '')
-      .trim();
+// Handles a message: answers as ISAC and runs any event tools the model asks for. The provider
+// is passed in so the mock can drive it without network access, and the message carries the
+// guild and confirmation prompt so a test can stand in for Discord.
+export function createMessageDispatcher({ provider, log }: DispatcherDeps) {
+  return async (message: IncomingMessage) => {
+    const { content } = message;
 
     if (!content) {
       await message.reply("ISAC system online. How can I assist you, Agent?");
       return;
     }
 
-    if ('sendTyping' in message.channel) {
-      await message.channel.sendTyping();
-    }
+    await message.sendTyping();
 
     // Pre-fetch guild scheduled events for context
-    let guildEvents: GuildScheduledEvent[] = [];
+    let guildEvents: EventInfo[] = [];
     if (message.guild) {
       try {
-        const fetched = await message.guild.scheduledEvents.fetch();
-        guildEvents = [...fetched.filter((e) => e.isScheduled()).values()];
+        guildEvents = await message.guild.listUpcomingEvents();
       } catch {
         // ignore fetch errors — events context will just be empty
       }
     }
 
-    const aiResult = await callAI(content, openrouterKey, guildEvents, log);
+    // One history per channel; a DM is its own channel
+    const historyKey = message.channelId;
+    const userMessage: ChatMessage = { role: 'user', content: message.guild ? `${message.speaker}: ${content}` : content };
+    const aiResult = await callAI(provider, userMessage.content, getHistory(historyKey), guildEvents, log);
 
     // If no tool calls, reply with AI text or a fallback
     if (aiResult.toolCalls.length === 0) {
       const reply = aiResult.textContent || "Signal interference detected, Agent. Please repeat your transmission.";
       await message.reply(reply);
+      // A failed call isn't remembered, so a retry starts from the same place
+      if (aiResult.textContent) {
+        appendTurn(historyKey, [userMessage, { role: 'assistant', content: aiResult.textContent }]);
+      }
       return;
     }
 
-    // Dispatch each tool call
-    for (const tc of aiResult.toolCalls) {
-      const args = JSON.parse(tc.function.arguments) as Record<string, string>;
+    // Dispatch each tool call, keeping each result for the history
+    const toolResults: ChatMessage[] = [];
+    const recordOutcome = (outcome: string) => appendTurn(historyKey, [{ role: 'assistant', content: outcome }]);
+    const member = message.guild ? await message.guild.fetchMember(message.authorId) : null;
+    try {
+      for (const tc of aiResult.toolCalls) {
+        const record = (result: string) => {
+          toolResults.push({ role: 'tool', tool_call_id: tc.id, content: result });
+        };
+        const reply = async (result: string) => {
+          await message.reply(result);
+          record(result);
+        };
 
-      // Guild-only guard for all event tools
-      if (!message.guild) {
-        await message.reply('Events can only be managed from a server channel.');
-        continue;
-      }
+        // Calls before this one may already have run, so a bad one is answered on its own
+        let args: Record<string, string>;
+        try {
+          args = JSON.parse(tc.function.arguments) as Record<string, string>;
+          if (!args || typeof args !== 'object') throw new Error('not an object');
+        } catch {
+          log.warn(`[Discord] Invalid arguments for ${tc.function.name}: ${tc.function.arguments}`);
+          await reply('ISAC could not parse that request. Please try again.');
+          continue;
+        }
 
-      switch (tc.function.name) {
-        // ── CREATE EVENT ──────────────────────────────────
-        case 'create_event': {
-          if (!args.title || !args.event_time) {
-            await message.reply('ISAC could not parse event details. Please try again.');
-            break;
-          }
+        // Guild-only guard for all event tools
+        if (!message.guild) {
+          await reply('Events can only be managed from a server channel.');
+          continue;
+        }
 
-          try {
-            const startTime = new Date(args.event_time);
-            const endTime = new Date(startTime.getTime() + (Number(args.duration_hours) || 1) * 3600000);
-            const event = await message.guild.scheduledEvents.create({
-              name: args.title,
-              description: args.description || '',
-              scheduledStartTime: startTime,
-              scheduledEndTime: endTime,
-              privacyLevel: GuildScheduledEventPrivacyLevel.GuildOnly,
-              entityType: GuildScheduledEventEntityType.External,
-              entityMetadata: { location: 'In-game' },
-            });
-            await message.reply(`${event.url}`);
-            log.info(`[Discord] Event created: "${event.name}" at ${args.event_time} by ${message.author.tag}`);
-          } catch (err) {
-            log.error(`[Discord] Failed to create event: ${err}`);
-            await message.reply('Failed to create the event. Please try again.');
-          }
-          break;
+        const action = TOOL_ACTIONS[tc.function.name];
+        if (action && (!member || !canUseEventAction(member, action))) {
+          await reply(ACTION_REFUSALS[action]);
+          continue;
         }
 
-        // ── EDIT EVENT ────────────────────────────────────
-        case 'edit_event': {
-          try {
-            const event = await message.guild.scheduledEvents.fetch(args.event_id);
-            const updates: Record<string, unknown> = {};
-            if (args.title) updates.name = args.title;
-            if (args.description) updates.description = args.description;
-            if (args.event_time) {
-              updates.scheduledStartTime = new Date(args.event_time);
-              updates.scheduledEndTime = new Date(new Date(args.event_time).getTime() + 3600000);
+        switch (tc.function.name) {
+          // ── CREATE EVENT ──────────────────────────────────
+          case 'create_event': {
+            const startTime = args.event_time ? parseEventTime(args.event_time, getTimezone()) : null;
+            if (!args.title || !startTime) {
+              await reply('ISAC could not parse event details. Please try again.');
+              break;
             }
-            await event.edit(updates);
-            await message.reply(`Event **${event.name}** updated!`);
-            log.info(`[Discord] Event edited: "${event.name}" (${args.event_id})`);
-          } catch (err) {
-            log.error(`[Discord] Failed to edit event ${args.event_id}: ${err}`);
-            await message.reply("ISAC couldn't find or update that event. It may no longer exist.");
+            await reply(await createEvent(
+              message.guild,
+              { title: args.title, description: args.description, startTime, durationHours: Number(args.duration_hours) || undefined },
+              { id: message.authorId, tag: message.authorTag },
+              log,
+            ));
+            break;
           }
-          break;
-        }
 
-        // ── DELETE EVENT ──────────────────────────────────
-        case 'delete_event': {
-          try {
-            const event = await message.guild.scheduledEvents.fetch(args.event_id);
-            const name = event.name;
-            await event.delete();
-            await message.reply(`Event **${name}** deleted.`);
-            log.info(`[Discord] Event deleted: "${name}" (${args.event_id})`);
-          } catch (err) {
-            log.error(`[Discord] Failed to delete event ${args.event_id}: ${err}`);
-            await message.reply("ISAC couldn't find that event. It may have already been removed.");
+          // ── EDIT EVENT ────────────────────────────────────
+          case 'edit_event': {
+            const startTime = args.event_time ? parseEventTime(args.event_time, getTimezone()) : undefined;
+            if (startTime === null) {
+              await reply('ISAC could not parse the new event time. Please try again.');
+              break;
+            }
+            const event = await message.guild.fetchEvent(args.event_id);
+            if (!event) {
+              await reply("ISAC couldn't find that event. It may no longer exist.");
+              break;
+            }
+            if (!member || !canManageEvent(member, event)) {
+              await reply(describeOwnershipRefusal(event));
+              break;
+            }
+            const details: EventDetails = { title: args.title, description: args.description, startTime };
+            const changes = describeEventChanges(event, details);
+            if (changes.length === 0) {
+              await reply(`${describeEvent(event)} already matches that, Agent. No changes needed.`);
+              break;
+            }
+            const guild = message.guild;
+            record(await confirmEventChange(
+              message,
+              `Update ${describeEvent(event)}?\n${changes.map((change) => `• ${change}`).join('\n')}`,
+              'Confirm edit',
+              () => editEvent(guild, event.id, details, log),
+              recordOutcome,
+              log,
+            ));
+            break;
           }
-          break;
-        }
-
-        // ── VIEW EVENTS ──────────────────────────────────
-        case 'view_events': {
-          try {
-            const events = await message.guild.scheduledEvents.fetch();
-            const upcoming = events.filter((e) => e.isScheduled());
 
-            if (upcoming.size === 0) {
-              await message.reply("No events are currently scheduled. Tell me about one and I'll create it!");
+          // ── DELETE EVENT ──────────────────────────────────
+          case 'delete_event': {
+            const event = await message.guild.fetchEvent(args.event_id);
+            if (!event) {
+              await reply("ISAC couldn't find that event. It may have already been removed.");
+              break;
+            }
+            if (!member || !canManageEvent(member, event)) {
+              await reply(describeOwnershipRefusal(event));
               break;
             }
+            const guild = message.guild;
+            record(await confirmEventChange(
+              message,
+              `Delete ${describeEvent(event)}?`,
+              'Confirm delete',
+              () => deleteEvent(guild, event.id, log),
+              recordOutcome,
+              log,
+            ));
+            break;
+          }
 
-            const lines = upcoming.map((e) => {
-              const unix = Math.floor(e.scheduledStartTimestamp! / 1000);
-              return `**${e.name}** — <t:${unix}:F> (<t:${unix}:R>)`;
-            });
-            await message.reply(`📋 **Upcoming Events:**\n${[...lines.values()].join('\n')}`);
-          } catch (err) {
-            log.error(`[Discord] Failed to fetch events: ${err}`);
-            await message.reply('Failed to retrieve events. Please try again.');
+          // ── VIEW EVENTS ──────────────────────────────────
+          case 'view_events': {
+            await reply(await listEvents(message.guild, log));
+            break;
           }
-          break;
+
+          default:
+            log.warn(`[Discord] Unknown tool call: ${tc.function.name}`);
+            record(`Unknown tool: ${tc.function.name}`);
+            break;
+        }
+      }
+
+    } finally {
+      // Always remember the turn, since some calls may have changed events. Every call needs
+      // a result, so any skipped by an error are marked as not run.
+      for (const tc of aiResult.toolCalls) {
+        if (!toolResults.some((result) => result.role === 'tool' && result.tool_call_id === tc.id)) {
+          toolResults.push({ role: 'tool', tool_call_id: tc.id, content: 'Not run: an earlier step failed.' });
         }
+      }
+      appendTurn(historyKey, [
+        userMessage,
+        { role: 'assistant', content: aiResult.textContent, tool_calls: aiResult.toolCalls },
+        ...toolResults,
+      ]);
+    }
+  };
+}
 
-        default:
-          log.warn(`[Discord] Unknown tool call: ${tc.function.name}`);
-          break;
+// ── Bot entry point ──────────────────────────────────────────
+
+// Uses the provider configured by the LLM_* variables unless one is given
+export function startDiscordBot(log: BotLogger, provider?: LLMProvider) {
+  const token = process.env.DISCORD_BOT_TOKEN;
+
+  if (!token) {
+    log.warn('[Discord] DISCORD_BOT_TOKEN not set, skipping Discord bot startup');
+    return;
+  }
+
+  const client = new Client({
+    intents: [
+      GatewayIntentBits.Guilds,
+      GatewayIntentBits.GuildMessages,
+      GatewayIntentBits.MessageContent,
+      GatewayIntentBits.GuildMembers,
+      GatewayIntentBits.DirectMessages,
+      GatewayIntentBits.GuildScheduledEvents,
+    ],
+  });
+
+  client.once(Events.ClientReady, async (readyClient) => {
+    log.info(`[Discord] ISAC bot logged in as ${readyClient.user.tag}`);
+
+    // Guild commands update instantly, global ones can take up to an hour to appear
+    const guildId = process.env.DISCORD_GUILD_ID;
+    const commands = [buildEventCommand(getTimezone()).toJSON()];
+    try {
+      if (guildId) {
+        await readyClient.application.commands.set(commands, guildId);
+      } else {
+        await readyClient.application.commands.set(commands);
       }
+      log.info(`[Discord] Registered slash commands${guildId ? ` for guild ${guildId}` : ''}`);
+    } catch (err) {
+      log.error(`[Discord] Failed to register slash commands: ${err}`);
     }
   });
 
-  // ── Login ──────────────────────────────────────────────
+  // ── Interaction handler (slash commands) ─────────────────
 
-  client.login(token).catch((err) => {
-    log.error(`[Discord] Failed to login: ${err}`);
+  client.on(Events.InteractionCreate, async (interaction) => {
+    try {
+      if (interaction.isAutocomplete() && interaction.commandName === 'event') {
+        await handleEventAutocomplete(interaction, log);
+      } else if (interaction.isChatInputCommand() && interaction.commandName === 'event') {
+        await handleEventCommand(interaction, log);
+      }
+    } catch (err) {
+      log.error(`[Discord] Failed to handle interaction: ${err}`);
+    }
   });
+
+  // ── Login ──────────────────────────────────────────────
+
+  // The provider and permissions must be in place before the first message can arrive
+  Promise.all([provider ?? createProviderFromEnv(), loadEventAccess(), loadEventOwners()])
+    .then(([llm, access, ownerCount]) => {
+      if (!llm) {
+        log.warn('[Discord] LLM_API_KEY (or OPENROUTER_API_KEY) not set, skipping Discord bot startup');
+        return;
+      }
+      const dispatch = createMessageDispatcher({ provider: llm, log });
+      client.on(Events.MessageCreate, (message) => {
+        const incoming = fromDiscordMessage(message, log);
+        if (!incoming) return;
+        dispatch(incoming).catch((err) => {
+          log.error(`[Discord] Failed to handle message: ${err}`);
+        });
+      });
+      log.info(`[Discord] Using LLM provider ${llm.name}`);
+      log.info(`[Discord] Event access: ${Object.entries(access).map(([key, rules]) => `${key}=${rules.join('|') || 'nobody'}`).join(', ')}`);
+      log.info(`[Discord] Loaded ${ownerCount} event owner records`);
+      return client.login(token);
+    })
+    .catch((err) => {
+      log.error(`[Discord] Failed to start: ${err}`);
+    });
 }
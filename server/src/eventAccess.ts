@@ -0,0 +1,168 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import * as path from 'path';
+import { PermissionFlagsBits } from 'discord.js';
+
+// Who may use ISAC's event tools. Each action takes a list of rules, and a member matching any
+// of them is allowed:
+//   everyone          anyone in the server
+//   ManageEvents      a Discord permission name (any key of PermissionFlagsBits)
+//   123456789012345   a role ID
+//   Raid Lead         a role name, case-insensitive
+// Members matching the `elevated` rules may use every action and touch anyone's events; everyone
+// else may only edit or delete events they created.
+
+export type EventAction = 'create' | 'edit' | 'delete' | 'view';
+
+export type EventAccessConfig = Record<EventAction | 'elevated', string[]>;
+
+// What the rules need to know about a member, so they can be checked without a live guild
+export interface AccessMember {
+  id: string;
+  roles: Array<{ id: string; name: string }>;
+  hasPermission: (permission: bigint) => boolean;
+}
+
+// creatorId is who made the event in Discord, or null when the bot made it
+export interface OwnedEvent {
+  id: string;
+  creatorId: string | null;
+}
+
+const DEFAULT_ACCESS: EventAccessConfig = {
+  create: ['everyone'],
+  edit: ['everyone'],
+  delete: ['everyone'],
+  view: ['everyone'],
+  elevated: ['ManageEvents'],
+};
+
+const ACCESS_ENV_VARS: Record<keyof EventAccessConfig, string> = {
+  create: 'DISCORD_EVENT_CREATE_ACCESS',
+  edit: 'DISCORD_EVENT_EDIT_ACCESS',
+  delete: 'DISCORD_EVENT_DELETE_ACCESS',
+  view: 'DISCORD_EVENT_VIEW_ACCESS',
+  elevated: 'DISCORD_EVENT_ADMIN_ACCESS',
+};
+
+const OWNERS_FILE = path.resolve(process.env.DISCORD_EVENT_OWNERS_FILE || 'data/event-owners.json');
+
+let access: EventAccessConfig = DEFAULT_ACCESS;
+// Events the bot creates list the bot as their creator, so the requester is recorded here
+let eventOwners = new Map<string, string>();
+// Serialises writes so two quick changes can't interleave
+let saveQueue: Promise<void> = Promise.resolve();
+
+function parseRuleList(value: unknown): string[] | null {
+  if (Array.isArray(value)) {
+    return value.map((rule) => String(rule).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string') {
+    return value.split(',').map((rule) => rule.trim()).filter(Boolean);
+  }
+  return null;
+}
+
+// Rules come from DISCORD_ACCESS_FILE (JSON with any of the keys above) when it is set, then
+// from the per-action environment variables, then the defaults.
+export async function loadEventAccess(): Promise<EventAccessConfig> {
+  let fileConfig: Record<string, unknown> = {};
+  const configFile = process.env.DISCORD_ACCESS_FILE;
+  if (configFile) {
+    const parsed = JSON.parse(await readFile(path.resolve(configFile), 'utf8')) as unknown;
+    if (parsed && typeof parsed === 'object') {
+      fileConfig = parsed as Record<string, unknown>;
+    }
+  }
+  const config = { ...DEFAULT_ACCESS };
+  for (const key of Object.keys(ACCESS_ENV_VARS) as Array<keyof EventAccessConfig>) {
+    config[key] = parseRuleList(fileConfig[key]) ?? parseRuleList(process.env[ACCESS_ENV_VARS[key]]) ?? DEFAULT_ACCESS[key];
+  }
+  access = config;
+  return config;
+}
+
+function matchesRule(member: AccessMember, rule: string): boolean {
+  if (rule.toLowerCase() === 'everyone' || rule === '@everyone') {
+    return true;
+  }
+  if (rule in PermissionFlagsBits) {
+    return member.hasPermission(PermissionFlagsBits[rule as keyof typeof PermissionFlagsBits]);
+  }
+  if (/^\d{17,20}$/.test(rule)) {
+    return member.roles.some((role) => role.id === rule);
+  }
+  const name = rule.toLowerCase();
+  return member.roles.some((role) => role.name.toLowerCase() === name);
+}
+
+function matchesAny(member: AccessMember, rules: string[]): boolean {
+  return rules.some((rule) => matchesRule(member, rule));
+}
+
+export function isElevated(member: AccessMember): boolean {
+  return matchesAny(member, access.elevated);
+}
+
+export function canUseEventAction(member: AccessMember, action: EventAction): boolean {
+  return isElevated(member) || matchesAny(member, access[action]);
+}
+
+export function getEventOwnerId(event: OwnedEvent): string | null {
+  const owner = eventOwners.get(event.id);
+  if (owner) {
+    return owner;
+  }
+  // Events made in Discord itself list their real creator; ones the bot made before owners
+  // were recorded have no owner, so only elevated members can change them
+  return event.creatorId;
+}
+
+export function canManageEvent(member: AccessMember, event: OwnedEvent): boolean {
+  return isElevated(member) || getEventOwnerId(event) === member.id;
+}
+
+// ── Owner records ────────────────────────────────────────────
+
+export async function loadEventOwners(): Promise<number> {
+  try {
+    const raw = await readFile(OWNERS_FILE, 'utf8');
+    const parsed = JSON.parse(raw) as unknown;
+    eventOwners = new Map(
+      parsed && typeof parsed === 'object'
+        ? Object.entries(parsed as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        : [],
+    );
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+    eventOwners = new Map();
+  }
+  return eventOwners.size;
+}
+
+async function writeEventOwners(): Promise<void> {
+  await mkdir(path.dirname(OWNERS_FILE), { recursive: true });
+  // Write to a temp file and rename so a crash mid-write never truncates the records
+  const tmpFile = `${OWNERS_FILE}.tmp`;
+  await writeFile(tmpFile, JSON.stringify(Object.fromEntries(eventOwners), null, 2));
+  await rename(tmpFile, OWNERS_FILE);
+}
+
+function saveEventOwners(): Promise<void> {
+  const saved = saveQueue.then(writeEventOwners);
+  saveQueue = saved.catch(() => undefined);
+  return saved;
+}
+
+export function recordEventOwner(eventId: string, userId: string): Promise<void> {
+  eventOwners.set(eventId, userId);
+  return saveEventOwners();
+}
+
+export function forgetEventOwner(eventId: string): Promise<void> {
+  if (!eventOwners.delete(eventId)) {
+    return Promise.resolve();
+  }
+  return saveEventOwners();
+}
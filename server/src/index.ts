@@ -1,56 +1,84 @@
 import Fastify from 'fastify';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { createHash, timingSafeEqual } from 'crypto';
 import { startDiscordBot } from './discord';
 import fastifyWebsocket from '@fastify/websocket';
 import fastifyCors from '@fastify/cors';
 import type { WebSocket } from 'ws';
-
-// Message types
-interface WSMessage {
-  type: string;
-  [key: string]: unknown;
-}
-
-interface ReadyMessage extends WSMessage {
-  type: 'ready';
-  value: boolean;
-}
-
-interface ReadyStateMessage extends WSMessage {
-  type: 'ready_state';
-  agents: Record<number, boolean>;
-  names: Record<number, string>;
-}
-
-interface AgentAssignedMessage extends WSMessage {
-  type: 'agent_assigned';
-  agentId: number;
-  agents: Record<number, boolean>;
-  names: Record<number, string>;
-}
-
-interface SetNameMessage extends WSMessage {
-  type: 'set_name';
-  name: string;
-}
-
-interface StartRequestMessage extends WSMessage {
-  type: 'start_request';
-}
-
-interface StartBroadcastMessage extends WSMessage {
-  type: 'start';
-  timestamp: number;
-  starterAgentId: number;
+import { MAX_AGENTS, MAX_NAME_LENGTH, PROTOCOL_VERSION, isCompatibleProtocolVersion, parseClientMessage } from 'shd-overlay-protocol';
+import type {
+  AgentAssignedMessage,
+  ClientMessage,
+  ClientMessageType,
+  ClientRole,
+  ErrorCode,
+  LobbySettings,
+  ReadyStateMessage,
+  ServerMessage,
+} from 'shd-overlay-protocol';
+import {
+  addClientToRoom,
+  addSpectatorToRoom,
+  areAllConnectedReady,
+  canControlRoom,
+  createRoom,
+  getClientRoom,
+  getOrCreateRoom,
+  hasFreeAgentSlot,
+  getResumeToken,
+  getRoom,
+  getRoomCount,
+  getLatencySnapshot,
+  getRoomSnapshot,
+  hasResumableSession,
+  isRoomActive,
+  normalizeRoomCode,
+  removeClientFromRoom,
+  resumeClient,
+  transferLeader,
+  updateLobbySettings,
+} from './rooms';
+import type { Room } from './rooms';
+import { parseObsOptions, renderObsPage } from './obs';
+import type { ObsQuery } from './obs';
+import { finishRun, getRun, listRuns, loadRuns, recordSplit, startRun } from './runs';
+
+const SERVER_VERSION = '1.2.0';
+
+// How long a dropped agent's slot is held for a resume before it is freed
+const RESUME_GRACE_MS = parseInt(process.env.RESUME_GRACE_MS || '30000', 10);
+
+// Bearer token for the HTTP control API (/rooms/...). The API is disabled while it is unset.
+const CONTROL_API_TOKEN = process.env.CONTROL_API_TOKEN || '';
+
+// Lets a self-hosted server admit only apps that know the token; hello must carry it when set
+const ACCESS_TOKEN = process.env.ACCESS_TOKEN || '';
+
+// Server-driven heartbeat: every socket gets a WebSocket ping frame each interval. A socket that
+// misses HEARTBEAT_MAX_MISSED pongs in a row is treated as half-open and terminated.
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '10000', 10);
+const HEARTBEAT_MAX_MISSED = parseInt(process.env.HEARTBEAT_MAX_MISSED || '3', 10);
+
+// Every open socket, including ones that have not joined a room yet
+const clients = new Set<WebSocket>();
+// Sockets that completed the hello handshake with a compatible protocol version
+const greetedClients = new Set<WebSocket>();
+// Sockets connected as spectators (via hello or ?role=spectator)
+const spectators = new Set<WebSocket>();
+// ?room= / &resume= / &role= query parameters, applied once the client's hello arrives
+const pendingJoins = new Map<WebSocket, { room?: string; resume?: string; role?: string }>();
+
+interface HeartbeatState {
+  pingSentAt: number | null; // null once the last ping has been answered
+  missed: number;
 }
 
-const MAX_AGENTS = 8;
+const heartbeats = new Map<WebSocket, HeartbeatState>();
+// The last latency payload sent to each room, so an unchanged one isn't sent again
+const lastLatencySent = new WeakMap<Room, string>();
 
-// Connected clients tracking
-const clients = new Set<WebSocket>();
-const clientAgents = new Map<WebSocket, number>();
-const agentReadyState = new Map<number, boolean>();
-const agentNames = new Map<number, string>();
-let travelMode = false;
+// The only messages a spectator may send; everything else would change the room
+const SPECTATOR_MESSAGE_TYPES = new Set<ClientMessageType>(['hello', 'join_room', 'ping']);
 
 // Create Fastify instance
 const fastify = Fastify({
@@ -66,185 +94,718 @@ async function registerPlugins() {
   await fastify.register(fastifyWebsocket);
 }
 
-// Broadcast message to all connected clients
-function broadcast(message: WSMessage, excludeClient?: WebSocket) {
+// Broadcast message to every client in a room
+function broadcast(room: Room, message: ServerMessage, excludeClient?: WebSocket) {
   const payload = JSON.stringify(message);
   let sentCount = 0;
 
-  for (const client of clients) {
+  for (const client of room.clients) {
     if (client !== excludeClient && client.readyState === 1) { // 1 = OPEN
       client.send(payload);
       sentCount++;
     }
   }
 
-  fastify.log.info(`Broadcast "${message.type}" to ${sentCount} clients`);
+  fastify.log.info(`Broadcast "${message.type}" to ${sentCount} clients in room ${room.code}`);
 }
 
-function getReadyStateSnapshot(): Record<number, boolean> {
-  const snapshot: Record<number, boolean> = {};
-  for (let i = 1; i <= MAX_AGENTS; i += 1) {
-    snapshot[i] = agentReadyState.get(i) ?? false;
-  }
-  return snapshot;
+function broadcastReadyState(room: Room) {
+  const message: ReadyStateMessage = {
+    type: 'ready_state',
+    ...getRoomSnapshot(room)
+  };
+  broadcast(room, message);
 }
 
-function getNameSnapshot(): Record<number, string> {
-  const snapshot: Record<number, string> = {};
-  for (let i = 1; i <= MAX_AGENTS; i += 1) {
-    snapshot[i] = agentNames.get(i) ?? '';
-  }
-  return snapshot;
+function send(ws: WebSocket, message: ServerMessage) {
+  ws.send(JSON.stringify(message));
 }
 
-function broadcastReadyState() {
-  const message: ReadyStateMessage = {
-    type: 'ready_state',
-    agents: getReadyStateSnapshot(),
-    names: getNameSnapshot()
+function sendError(ws: WebSocket, code: ErrorCode, message: string, requestType?: string) {
+  send(ws, { type: 'error', code, message, requestType });
+}
+
+function sendNotAssigned(ws: WebSocket, requestType: string) {
+  sendError(ws, 'NOT_ASSIGNED', 'Join a room before sending this request', requestType);
+}
+
+function sendNotLeader(ws: WebSocket, requestType: string) {
+  sendError(ws, 'NOT_LEADER', NOT_LEADER_MESSAGE, requestType);
+}
+
+function sendAgentAssigned(ws: WebSocket, room: Room, agentId: number, resumed = false) {
+  const assignedMessage: AgentAssignedMessage = {
+    type: 'agent_assigned',
+    agentId,
+    room: room.code,
+    resumeToken: getResumeToken(room, agentId),
+    resumed,
+    travelMode: room.travelMode,
+    settings: room.settings,
+    ...getRoomSnapshot(room)
   };
-  broadcast(message);
+  send(ws, assignedMessage);
 }
 
-function areAllConnectedReady(): boolean {
-  if (agentReadyState.size === 0) {
+// Take a slot in the room and announce it. Returns false when the room is full.
+function joinRoom(ws: WebSocket, room: Room): boolean {
+  const agentId = addClientToRoom(ws, room);
+  if (!agentId) {
+    sendError(ws, 'ROOM_FULL', `Room ${room.code} is full (max ${MAX_AGENTS} agents)`);
     return false;
   }
-  for (const ready of agentReadyState.values()) {
-    if (!ready) {
-      return false;
-    }
+  fastify.log.info(`Client joined room ${room.code} as Agent ${agentId}. Room clients: ${room.clients.size}`);
+  sendAgentAssigned(ws, room, agentId);
+  broadcastReadyState(room);
+  return true;
+}
+
+// Watch the room without taking a slot
+function spectateRoom(ws: WebSocket, room: Room) {
+  leaveRoom(ws);
+  addSpectatorToRoom(ws, room);
+  fastify.log.info(`Spectator joined room ${room.code}`);
+  send(ws, {
+    type: 'spectating',
+    room: room.code,
+    travelMode: room.travelMode,
+    settings: room.settings,
+    ...getRoomSnapshot(room)
+  });
+}
+
+// Reclaim a held slot with a resume token. Returns false when the token is unknown or expired.
+function resumeSession(ws: WebSocket, token: unknown): boolean {
+  if (!hasResumableSession(token)) {
+    return false;
+  }
+  const current = getClientRoom(ws);
+  const currentAgentId = current?.clientAgents.get(ws);
+  if (current && currentAgentId && getResumeToken(current, currentAgentId) !== token) {
+    leaveRoom(ws);
+  }
+  const resumed = resumeClient(ws, token);
+  if (!resumed) {
+    return false;
+  }
+  const { room, agentId, replaced } = resumed;
+  if (replaced) {
+    // The old socket is still half-open; the new connection takes over its slot
+    replaced.close(4000, 'Session resumed elsewhere');
   }
+  fastify.log.info(`Agent ${agentId} resumed session in room ${room.code}`);
+  sendAgentAssigned(ws, room, agentId, true);
+  broadcastReadyState(room);
   return true;
 }
 
-function getAvailableAgentId(): number | null {
-  for (let i = 1; i <= MAX_AGENTS; i += 1) {
-    if (!agentReadyState.has(i)) {
-      return i;
+// Leave the current room. `holdSlot` keeps the agent's slot for RESUME_GRACE_MS (used for
+// unexpected disconnects); switching rooms frees it immediately.
+function leaveRoom(ws: WebSocket, holdSlot = false) {
+  const room = removeClientFromRoom(ws, holdSlot ? {
+    holdMs: RESUME_GRACE_MS,
+    onReleased: (heldRoom, agentId) => {
+      fastify.log.info(`Agent ${agentId} did not resume in room ${heldRoom.code}, slot freed`);
+      if (isRoomActive(heldRoom)) {
+        broadcastReadyState(heldRoom);
+      } else {
+        fastify.log.info(`Room ${heldRoom.code} is empty, removed`);
+      }
+    },
+  } : undefined);
+  if (!room) {
+    return;
+  }
+  if (isRoomActive(room)) {
+    broadcastReadyState(room);
+  } else {
+    fastify.log.info(`Room ${room.code} is empty, removed`);
+  }
+}
+
+// Drop the room's run without saving it (reset, restart, or an explicit abort)
+function abortActiveRun(room: Room) {
+  const run = room.activeRun;
+  if (!run) {
+    return;
+  }
+  room.activeRun = null;
+  fastify.log.info(`Run ${run.id} aborted in room ${room.code}`);
+  broadcast(room, { type: 'run_aborted', runId: run.id });
+}
+
+// ── Heartbeat ───────────────────────────────────────────────
+
+function markAgentSeen(ws: WebSocket, rtt?: number) {
+  const room = getClientRoom(ws);
+  const agentId = room?.clientAgents.get(ws);
+  if (!room || !agentId) {
+    return;
+  }
+  room.agentLastSeen.set(agentId, Date.now());
+  if (rtt !== undefined) {
+    room.agentRtt.set(agentId, rtt);
+  }
+}
+
+function handleHeartbeatPong(ws: WebSocket) {
+  const beat = heartbeats.get(ws);
+  if (!beat) {
+    return;
+  }
+  const rtt = beat.pingSentAt !== null ? Date.now() - beat.pingSentAt : undefined;
+  beat.pingSentAt = null;
+  beat.missed = 0;
+  markAgentSeen(ws, rtt);
+}
+
+// Any inbound message proves the socket is alive, even if its pong is still in flight
+function handleClientActivity(ws: WebSocket) {
+  const beat = heartbeats.get(ws);
+  if (beat) {
+    beat.missed = 0;
+  }
+  markAgentSeen(ws);
+}
+
+function runHeartbeat() {
+  const now = Date.now();
+  const activeRooms = new Set<Room>();
+  for (const ws of clients) {
+    const beat = heartbeats.get(ws);
+    if (!beat) {
+      continue;
+    }
+    if (beat.pingSentAt !== null) {
+      beat.missed += 1;
+      if (beat.missed >= HEARTBEAT_MAX_MISSED) {
+        // terminate() skips the close handshake; the close handler then frees or holds the slot
+        fastify.log.warn(`Evicting client after ${beat.missed} missed heartbeats`);
+        ws.terminate();
+        continue;
+      }
+    }
+    if (ws.readyState === 1) { // 1 = OPEN
+      ws.ping();
+      // Keep the first unanswered ping's time so a late pong reports the real delay
+      beat.pingSentAt ??= now;
+    }
+    const room = getClientRoom(ws);
+    if (room?.clientAgents.has(ws)) {
+      activeRooms.add(room);
+    }
+  }
+  // Push the latest RTT and last-seen times so overlays can flag laggy agents
+  for (const room of activeRooms) {
+    const latency = getLatencySnapshot(room);
+    const payload = JSON.stringify(latency);
+    if (lastLatencySent.get(room) === payload) {
+      continue;
+    }
+    lastLatencySent.set(room, payload);
+    broadcast(room, { type: 'latency', ...latency });
+  }
+}
+
+// ── Room state transitions ──────────────────────────────────
+// Shared by the WebSocket handlers and the HTTP control API so both paths validate and
+// broadcast identically. `agentId` is the agent the request acts as.
+
+type ActionResult = { ok: true } | { ok: false; code: ErrorCode; message: string };
+
+const ACTION_OK: ActionResult = { ok: true };
+const NOT_LEADER_MESSAGE = 'Only the lobby leader can do that';
+
+function setAgentReady(room: Room, agentId: number, value: boolean): ActionResult {
+  room.agentReadyState.set(agentId, value);
+  broadcastReadyState(room);
+  return ACTION_OK;
+}
+
+function startRaid(room: Room, agentId: number): ActionResult {
+  if (!canControlRoom(room, agentId)) {
+    return { ok: false, code: 'NOT_LEADER', message: NOT_LEADER_MESSAGE };
+  }
+  if (!areAllConnectedReady(room)) {
+    return { ok: false, code: 'NOT_ALL_READY', message: 'All connected users must be Ready to start' };
+  }
+  // Starting again while a run is in progress abandons it
+  abortActiveRun(room);
+  // Stamp the start with the server clock; clients convert it using their ping/pong offset
+  const timestamp = Date.now();
+  const { countdownMs, starterOffsetMs } = room.settings;
+  const participants = [...room.agentNames].map(([id, name]) => ({ agentId: id, name: name || `Agent ${id}` }));
+  room.activeRun = startRun(room.code, timestamp + countdownMs, participants);
+  broadcast(room, { type: 'countdown', timestamp, duration: countdownMs });
+  broadcast(room, {
+    type: 'start',
+    timestamp,
+    starterAgentId: agentId,
+    starterActionAt: timestamp + countdownMs + starterOffsetMs,
+  });
+  return ACTION_OK;
+}
+
+function changeLobbySettings(room: Room, agentId: number, update: Partial<LobbySettings>): ActionResult {
+  if (!canControlRoom(room, agentId)) {
+    return { ok: false, code: 'NOT_LEADER', message: NOT_LEADER_MESSAGE };
+  }
+  const error = updateLobbySettings(room, update);
+  if (error) {
+    return { ok: false, code: 'INVALID_SETTINGS', message: error };
+  }
+  fastify.log.info({ settings: room.settings }, `Lobby settings changed in room ${room.code}`);
+  broadcast(room, { type: 'lobby_settings', settings: room.settings });
+  return ACTION_OK;
+}
+
+function requestTravel(room: Room, agentId: number): ActionResult {
+  if (!canControlRoom(room, agentId)) {
+    return { ok: false, code: 'NOT_LEADER', message: NOT_LEADER_MESSAGE };
+  }
+  // Reset all ready states for travel
+  for (const [id] of room.agentReadyState) {
+    room.agentReadyState.set(id, false);
+  }
+  room.travelMode = true;
+  broadcast(room, { type: 'travel_mode', active: true });
+  broadcastReadyState(room);
+  return ACTION_OK;
+}
+
+function executeTravel(room: Room, agentId: number): ActionResult {
+  if (!canControlRoom(room, agentId)) {
+    return { ok: false, code: 'NOT_LEADER', message: NOT_LEADER_MESSAGE };
+  }
+  if (!room.travelMode) {
+    return { ok: false, code: 'NOT_IN_TRAVEL_MODE', message: 'Not in travel mode' };
+  }
+  // Broadcast execute_travel - readied clients will press spacebar
+  broadcast(room, { type: 'execute_travel' });
+  // End travel mode
+  room.travelMode = false;
+  for (const [id] of room.agentReadyState) {
+    room.agentReadyState.set(id, false);
+  }
+  broadcast(room, { type: 'travel_mode', active: false });
+  broadcastReadyState(room);
+  return ACTION_OK;
+}
+
+function resetRaid(room: Room, agentId: number): ActionResult {
+  if (!canControlRoom(room, agentId)) {
+    return { ok: false, code: 'NOT_LEADER', message: NOT_LEADER_MESSAGE };
+  }
+  // A reset mid-run counts as an abort
+  abortActiveRun(room);
+  room.travelMode = false;
+  for (const [id] of room.agentReadyState) {
+    room.agentReadyState.set(id, false);
+  }
+  broadcast(room, { type: 'travel_mode', active: false });
+  broadcast(room, { type: 'reset' });
+  broadcastReadyState(room);
+  return ACTION_OK;
+}
+
+function sendActionError(ws: WebSocket, result: ActionResult, requestType: string) {
+  if (!result.ok) {
+    sendError(ws, result.code, result.message, requestType);
+  }
+}
+
+// ── HTTP control API ────────────────────────────────────────
+
+// HTTP status for each action error the control API can return
+const ACTION_ERROR_STATUS: Partial<Record<ErrorCode, number>> = {
+  NOT_LEADER: 403,
+  UNKNOWN_AGENT: 404,
+  INVALID_SETTINGS: 400,
+  NOT_ALL_READY: 409,
+  NOT_IN_TRAVEL_MODE: 409,
+};
+
+interface ControlBody {
+  agentId?: unknown;
+  value?: unknown;
+  countdownMs?: unknown;
+  starterOffsetMs?: unknown;
+}
+
+function changeLobbySettingsFromBody(room: Room, agentId: number, body: ControlBody | undefined): ActionResult {
+  const update = { countdownMs: body?.countdownMs, starterOffsetMs: body?.starterOffsetMs };
+  if (Object.values(update).some((value) => value !== undefined && typeof value !== 'number')) {
+    return { ok: false, code: 'INVALID_SETTINGS', message: 'Settings must be numbers of milliseconds' };
+  }
+  return changeLobbySettings(room, agentId, update as Partial<LobbySettings>);
+}
+
+function getRoomState(room: Room) {
+  return {
+    room: room.code,
+    travelMode: room.travelMode,
+    settings: room.settings,
+    ...getRoomSnapshot(room),
+    run: room.activeRun
+      ? { id: room.activeRun.id, startedAt: room.activeRun.startedAt, splits: room.activeRun.splits }
+      : null,
+  };
+}
+
+// Hash both sides so the comparison takes the same time whatever the token length
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+function isControlTokenValid(header: string | undefined): boolean {
+  const match = /^Bearer (.+)$/.exec(header ?? '');
+  return !!match && tokensMatch(match[1], CONTROL_API_TOKEN);
+}
+
+async function authorizeControlRequest(req: FastifyRequest, reply: FastifyReply) {
+  if (!CONTROL_API_TOKEN) {
+    return reply.code(503).send({ error: 'Control API is disabled (CONTROL_API_TOKEN is not set)' });
+  }
+  if (!isControlTokenValid(req.headers.authorization)) {
+    return reply.code(401).send({ error: 'Invalid or missing bearer token' });
+  }
+}
+
+function findControlRoom(code: string, reply: FastifyReply): Room | null {
+  const normalized = normalizeRoomCode(code);
+  const room = normalized ? getRoom(normalized) : undefined;
+  if (!room) {
+    reply.code(404).send({ error: 'Room not found' });
+    return null;
+  }
+  return room;
+}
+
+// The agent a request acts as: the requested id, or the lobby leader when none is given
+function resolveControlAgent(room: Room, requested: unknown, reply: FastifyReply): number | null {
+  const agentId = requested ?? room.leaderId;
+  if (agentId === null) {
+    reply.code(404).send({ error: `Room ${room.code} has no agents`, code: 'UNKNOWN_AGENT' });
+    return null;
+  }
+  if (typeof agentId !== 'number' || !room.agentReadyState.has(agentId)) {
+    reply.code(404).send({ error: `No agent ${String(agentId)} in room ${room.code}`, code: 'UNKNOWN_AGENT' });
+    return null;
+  }
+  return agentId;
+}
+
+function sendActionResult(room: Room, result: ActionResult, reply: FastifyReply) {
+  if (!result.ok) {
+    return reply.code(ACTION_ERROR_STATUS[result.code] ?? 400).send({ error: result.message, code: result.code });
+  }
+  return reply.send(getRoomState(room));
+}
+
+// Version check for the hello handshake. Anything other than hello/ping before it is rejected,
+// so an outdated app gets a clear error instead of silently never being assigned a slot.
+function handleHello(ws: WebSocket, message: Extract<ClientMessage, { type: 'hello' }>) {
+  // The role is fixed for the connection; switching would leave an agent slot behind a spectator
+  if (greetedClients.has(ws)) {
+    sendError(ws, 'ALREADY_GREETED', 'hello was already sent on this connection; reconnect to change role', 'hello');
+    return;
+  }
+  if (!isCompatibleProtocolVersion(message.protocolVersion)) {
+    fastify.log.warn(
+      { protocolVersion: message.protocolVersion, appVersion: message.appVersion },
+      'Rejected client with incompatible protocol version'
+    );
+    sendError(
+      ws,
+      'INCOMPATIBLE_VERSION',
+      `This app version (${message.appVersion ?? 'unknown'}) is not compatible with the server ` +
+        `(protocol ${message.protocolVersion}, server requires ${PROTOCOL_VERSION}). Please update the app.`,
+      'hello'
+    );
+    ws.close(1008, 'Incompatible protocol version');
+    return;
+  }
+  if (ACCESS_TOKEN && !tokensMatch(message.token ?? '', ACCESS_TOKEN)) {
+    fastify.log.warn({ appVersion: message.appVersion }, 'Rejected client with a missing or wrong access token');
+    sendError(ws, 'UNAUTHORIZED', 'This server requires an access token. Check the server profile.', 'hello');
+    ws.close(1008, 'Unauthorized');
+    return;
+  }
+
+  const pending = pendingJoins.get(ws);
+  pendingJoins.delete(ws);
+  const role: ClientRole = message.role ?? (pending?.role === 'spectator' ? 'spectator' : 'agent');
+  if (role === 'spectator') {
+    spectators.add(ws);
+  }
+
+  greetedClients.add(ws);
+  send(ws, { type: 'welcome', protocolVersion: PROTOCOL_VERSION, serverVersion: SERVER_VERSION, role });
+
+  if (role === 'agent' && pending?.resume !== undefined && resumeSession(ws, pending.resume)) {
+    return;
+  }
+  if (pending?.room !== undefined) {
+    const code = normalizeRoomCode(pending.room);
+    if (!code) {
+      sendError(ws, 'INVALID_ROOM_CODE', 'Room codes are 3-16 letters or digits');
+    } else if (role === 'spectator') {
+      spectateRoom(ws, getOrCreateRoom(code));
+    } else {
+      joinRoom(ws, getOrCreateRoom(code));
     }
   }
-  return null;
 }
 
 // Handle incoming messages
 async function handleMessage(ws: WebSocket, data: string) {
-  try {
-    const message = JSON.parse(data) as WSMessage;
-    fastify.log.info({ type: message.type }, 'Received message');
-
-    switch (message.type) {
-      case 'ready': {
-        const readyMsg = message as ReadyMessage;
-        const agentId = clientAgents.get(ws);
-        if (!agentId) {
-          fastify.log.warn('Ready message from unassigned client');
-          break;
-        }
-        agentReadyState.set(agentId, !!readyMsg.value);
-        broadcastReadyState();
+  const parsed = parseClientMessage(data);
+  if (!parsed.ok) {
+    fastify.log.warn({ code: parsed.code, reason: parsed.reason }, 'Rejected invalid message');
+    sendError(ws, parsed.code, parsed.reason, parsed.type);
+    return;
+  }
+  const message = parsed.message;
+  fastify.log.info({ type: message.type }, 'Received message');
+
+  if (message.type === 'hello') {
+    handleHello(ws, message);
+    return;
+  }
+  if (!greetedClients.has(ws) && message.type !== 'ping') {
+    sendError(ws, 'HELLO_REQUIRED', 'This app version is too old for the server. Please update the app.', message.type);
+    ws.close(1008, 'Hello required');
+    return;
+  }
+
+  if (spectators.has(ws)) {
+    if (!SPECTATOR_MESSAGE_TYPES.has(message.type)) {
+      sendError(ws, 'SPECTATOR_READ_ONLY', 'Spectators can only watch', message.type);
+      return;
+    }
+    if (message.type === 'join_room') {
+      const code = normalizeRoomCode(message.room);
+      if (!code) {
+        sendError(ws, 'INVALID_ROOM_CODE', 'Room codes are 3-16 letters or digits', message.type);
+        return;
+      }
+      spectateRoom(ws, getOrCreateRoom(code));
+      return;
+    }
+  }
+
+  const room = getClientRoom(ws);
+  const agentId = room?.clientAgents.get(ws);
+
+  switch (message.type) {
+    case 'create_room': {
+      const newRoom = createRoom();
+      leaveRoom(ws);
+      joinRoom(ws, newRoom);
+      break;
+    }
+
+    case 'join_room': {
+      if (message.resumeToken !== undefined && resumeSession(ws, message.resumeToken)) {
+        break;
+      }
+      const code = normalizeRoomCode(message.room);
+      if (!code) {
+        sendError(ws, 'INVALID_ROOM_CODE', 'Room codes are 3-16 letters or digits', message.type);
         break;
       }
+      if (room && agentId && room.code === code) {
+        // Already here — just resend the assignment
+        sendAgentAssigned(ws, room, agentId);
+        break;
+      }
+      const target = getOrCreateRoom(code);
+      // Check before leaving so a full room never strands the client without one
+      if (!hasFreeAgentSlot(target)) {
+        sendError(ws, 'ROOM_FULL', `Room ${code} is full (max ${MAX_AGENTS} agents)`, message.type);
+        break;
+      }
+      const previousRoom = room;
+      leaveRoom(ws);
+      if (!joinRoom(ws, target) && previousRoom && isRoomActive(previousRoom)) {
+        joinRoom(ws, previousRoom);
+      }
+      break;
+    }
 
-      case 'set_name': {
-        const nameMsg = message as SetNameMessage;
-        const agentId = clientAgents.get(ws);
-        if (!agentId) {
-          fastify.log.warn('Name message from unassigned client');
-          break;
-        }
-        const cleanName = String(nameMsg.name ?? '').trim().slice(0, 32);
-        agentNames.set(agentId, cleanName);
-        broadcastReadyState();
+    case 'ready': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      setAgentReady(room, agentId, message.value);
+      break;
+    }
+
+    case 'set_name': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
         break;
       }
+      const cleanName = message.name.trim().slice(0, MAX_NAME_LENGTH);
+      room.agentNames.set(agentId, cleanName);
+      broadcastReadyState(room);
+      break;
+    }
 
-      case 'start_request': {
-        const agentId = clientAgents.get(ws);
-        if (!agentId) {
-          fastify.log.warn('Start message from unassigned client');
-          break;
-        }
-        if (!areAllConnectedReady()) {
-          ws.send(JSON.stringify({
-            type: 'error',
-            message: 'All connected users must be Ready to start'
-          }));
-          break;
-        }
-        // Use the timestamp from the client who triggered start
-        const startMsg = message as { type: string; timestamp: number };
-        const timestamp = startMsg.timestamp;
-        const countdownDuration = 3000; // 3 seconds
-        broadcast({ type: 'countdown', timestamp, duration: countdownDuration });
-        const startMessage: StartBroadcastMessage = {
-          type: 'start',
-          timestamp,
-          starterAgentId: agentId
-        };
-        broadcast(startMessage);
+    case 'set_color': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
         break;
       }
+      room.agentColors.set(agentId, message.color);
+      broadcastReadyState(room);
+      break;
+    }
 
-      case 'travel_request': {
-        const agentId = clientAgents.get(ws);
-        if (!agentId) {
-          fastify.log.warn('Travel request from unassigned client');
-          break;
-        }
-        // Reset all ready states for travel
-        for (const [id] of agentReadyState) {
-          agentReadyState.set(id, false);
-        }
-        travelMode = true;
-        broadcast({ type: 'travel_mode', active: true });
-        broadcastReadyState();
+    case 'start_request': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
         break;
       }
+      sendActionError(ws, startRaid(room, agentId), message.type);
+      break;
+    }
 
-      case 'execute_travel': {
-        const agentId = clientAgents.get(ws);
-        if (!agentId) {
-          fastify.log.warn('Execute travel from unassigned client');
-          break;
-        }
-        if (!travelMode) {
-          ws.send(JSON.stringify({ type: 'error', message: 'Not in travel mode' }));
-          break;
-        }
-        // Broadcast execute_travel - readied clients will press spacebar
-        broadcast({ type: 'execute_travel' });
-        // End travel mode
-        travelMode = false;
-        for (const [id] of agentReadyState) {
-          agentReadyState.set(id, false);
-        }
-        broadcast({ type: 'travel_mode', active: false });
-        broadcastReadyState();
+    case 'transfer_leader': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      if (room.leaderId !== agentId) {
+        sendNotLeader(ws, message.type);
+        break;
+      }
+      if (!transferLeader(room, message.agentId)) {
+        sendError(ws, 'UNKNOWN_AGENT', `No connected agent ${message.agentId} in room ${room.code}`, message.type);
         break;
       }
+      fastify.log.info(`Agent ${agentId} handed leader to Agent ${message.agentId} in room ${room.code}`);
+      broadcastReadyState(room);
+      break;
+    }
 
-      case 'reset_raid': {
-        travelMode = false;
-        for (const [id] of agentReadyState) {
-          agentReadyState.set(id, false);
-        }
-        broadcast({ type: 'travel_mode', active: false });
-        broadcast({ type: 'reset' });
-        broadcastReadyState();
+    case 'set_lobby_policy': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      if (room.leaderId !== agentId) {
+        sendNotLeader(ws, message.type);
+        break;
+      }
+      room.policy = message.policy;
+      broadcastReadyState(room);
+      break;
+    }
+
+    case 'update_lobby_settings': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      const update = { countdownMs: message.countdownMs, starterOffsetMs: message.starterOffsetMs };
+      sendActionError(ws, changeLobbySettings(room, agentId, update), message.type);
+      break;
+    }
+
+    case 'split': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      if (!room.activeRun) {
+        sendError(ws, 'NO_ACTIVE_RUN', 'No run in progress', message.type);
+        break;
+      }
+      const split = recordSplit(room.activeRun, message.name ?? '', agentId, Date.now());
+      broadcast(room, { type: 'run_split', runId: room.activeRun.id, split });
+      break;
+    }
+
+    case 'finish': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      if (!room.activeRun) {
+        sendError(ws, 'NO_ACTIVE_RUN', 'No run in progress', message.type);
+        break;
+      }
+      const { record, saved } = finishRun(room.activeRun, Date.now());
+      room.activeRun = null;
+      fastify.log.info(`Run ${record.id} finished in room ${room.code} in ${record.totalMs}ms`);
+      broadcast(room, { type: 'run_finished', runId: record.id, totalMs: record.totalMs, splits: record.splits });
+      saved.catch((err) => {
+        fastify.log.error({ err }, `Failed to save run ${record.id}`);
+      });
+      break;
+    }
+
+    case 'abort': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      if (!room.activeRun) {
+        sendError(ws, 'NO_ACTIVE_RUN', 'No run in progress', message.type);
+        break;
+      }
+      abortActiveRun(room);
+      break;
+    }
+
+    case 'travel_request': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
         break;
       }
+      sendActionError(ws, requestTravel(room, agentId), message.type);
+      break;
+    }
+
+    case 'execute_travel': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      sendActionError(ws, executeTravel(room, agentId), message.type);
+      break;
+    }
+
+    case 'reset_raid': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
+        break;
+      }
+      sendActionError(ws, resetRaid(room, agentId), message.type);
+      break;
+    }
 
-      case 'ping': {
-        ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+    case 'clock_report': {
+      if (!room || !agentId) {
+        sendNotAssigned(ws, message.type);
         break;
       }
+      room.agentClockReports.set(agentId, {
+        rtt: Math.max(0, Math.round(message.rtt)),
+        offset: Math.round(message.offset),
+      });
+      broadcastReadyState(room);
+      break;
+    }
 
-      default:
-        fastify.log.warn({ type: message.type }, 'Unknown message type');
+    case 'ping': {
+      // Echo the client's send time so it can measure RTT and clock offset from one reply
+      send(ws, { type: 'pong', timestamp: Date.now(), clientTime: message.clientTime });
+      break;
     }
-  } catch (e) {
-    fastify.log.error({ error: e }, 'Failed to parse message');
   }
 }
 
@@ -254,51 +815,35 @@ async function registerRoutes() {
   fastify.get('/health', async () => {
     return {
       status: 'ok',
-      clients: clients.size,
+      version: SERVER_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      // Sockets that haven't sent hello yet are neither
+      clients: [...greetedClients].filter((client) => !spectators.has(client)).length,
+      spectators: spectators.size,
+      rooms: getRoomCount(),
       timestamp: new Date().toISOString()
     };
   });
 
-  // WebSocket endpoint
-  fastify.get('/ws', { websocket: true }, (socket, _req) => {
+  // WebSocket endpoint. After the hello handshake, clients join via ?room=<code> (plus
+  // &resume=<token> to reclaim a held slot) or by sending create_room / join_room.
+  // &role=spectator watches the room without taking a slot.
+  fastify.get<{ Querystring: { room?: string; resume?: string; role?: string } }>('/ws', { websocket: true }, (socket, req) => {
     const ws = socket as unknown as WebSocket;
-    if (clients.size >= MAX_AGENTS) {
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'Server full (max 8 agents)'
-      }));
-      ws.close(1008, 'Server full');
-      return;
-    }
-
-    const agentId = getAvailableAgentId();
-    if (!agentId) {
-      ws.send(JSON.stringify({
-        type: 'error',
-        message: 'No available agent slots'
-      }));
-      ws.close(1008, 'No available agent slots');
-      return;
-    }
 
     clients.add(ws);
-    clientAgents.set(ws, agentId);
-    agentReadyState.set(agentId, false);
-    agentNames.set(agentId, '');
-    fastify.log.info(`Client connected as Agent ${agentId}. Total clients: ${clients.size}`);
-
-    const assignedMessage: AgentAssignedMessage = {
-      type: 'agent_assigned',
-      agentId,
-      agents: getReadyStateSnapshot(),
-      names: getNameSnapshot()
-    };
+    fastify.log.info(`Client connected. Total clients: ${clients.size}`);
+
+    if (req.query.room !== undefined || req.query.resume !== undefined || req.query.role !== undefined) {
+      pendingJoins.set(ws, { room: req.query.room, resume: req.query.resume, role: req.query.role });
+    }
 
-    ws.send(JSON.stringify(assignedMessage));
-    broadcastReadyState();
+    heartbeats.set(ws, { pingSentAt: null, missed: 0 });
+    ws.on('pong', () => handleHeartbeatPong(ws));
 
     // Handle messages
     ws.on('message', (data: Buffer) => {
+      handleClientActivity(ws);
       handleMessage(ws, data.toString()).catch((err) => {
         fastify.log.error({ err }, 'Error handling message');
       });
@@ -307,13 +852,11 @@ async function registerRoutes() {
     // Handle disconnect
     ws.on('close', () => {
       clients.delete(ws);
-      const disconnectedAgent = clientAgents.get(ws);
-      if (disconnectedAgent) {
-        clientAgents.delete(ws);
-        agentReadyState.delete(disconnectedAgent);
-        agentNames.delete(disconnectedAgent);
-        broadcastReadyState();
-      }
+      greetedClients.delete(ws);
+      spectators.delete(ws);
+      heartbeats.delete(ws);
+      pendingJoins.delete(ws);
+      leaveRoom(ws, true);
       fastify.log.info(`Client disconnected. Total clients: ${clients.size}`);
     });
 
@@ -321,36 +864,127 @@ async function registerRoutes() {
     ws.on('error', (error) => {
       fastify.log.error({ error }, 'WebSocket error');
       clients.delete(ws);
-      const disconnectedAgent = clientAgents.get(ws);
-      if (disconnectedAgent) {
-        clientAgents.delete(ws);
-        agentReadyState.delete(disconnectedAgent);
-        agentNames.delete(disconnectedAgent);
-        broadcastReadyState();
-      }
+      greetedClients.delete(ws);
+      spectators.delete(ws);
+      heartbeats.delete(ws);
+      pendingJoins.delete(ws);
+      leaveRoom(ws, true);
     });
   });
 
+  // Completed run history, newest first. ?room=<code> limits it to one room.
+  fastify.get<{ Querystring: { room?: string } }>('/runs', async (req, reply) => {
+    if (req.query.room === undefined) {
+      return { runs: listRuns() };
+    }
+    const room = normalizeRoomCode(req.query.room);
+    if (!room) {
+      return reply.code(400).send({ error: 'Room codes are 3-16 letters or digits' });
+    }
+    return { runs: listRuns(room) };
+  });
+
+  fastify.get<{ Params: { id: string } }>('/runs/:id', async (req, reply) => {
+    const run = getRun(req.params.id);
+    if (!run) {
+      return reply.code(404).send({ error: 'Run not found' });
+    }
+    return run;
+  });
+
+  // OBS browser source: a read-only view of one room. ?theme=, ?layout= and ?scale= pick the look.
+  fastify.get<{ Params: { room: string }; Querystring: ObsQuery }>('/obs/:room', async (req, reply) => {
+    const code = normalizeRoomCode(req.params.room);
+    if (!code) {
+      return reply.code(400).send({ error: 'Room codes are 3-16 letters or digits' });
+    }
+    return reply.type('text/html; charset=utf-8').send(renderObsPage(code, parseObsOptions(req.query)));
+  });
+
+  await registerControlApi();
+
   // Root endpoint with info
   fastify.get('/', async () => {
     return {
       name: 'SHD Overlay Server',
-      version: '1.1.0',
+      version: SERVER_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
       endpoints: {
         websocket: '/ws',
         health: '/health',
+        runs: '/runs',
+        obs: '/obs/:room',
       },
       connectedClients: clients.size,
+      rooms: getRoomCount(),
     };
   });
 }
 
+// REST surface for Stream Deck buttons and scripts. Every route runs the same state
+// transitions as the WebSocket handlers, so clients see identical broadcasts.
+async function registerControlApi() {
+  type RoomParams = { Params: { room: string }; Body: ControlBody | undefined };
+  type ActionHandler = (room: Room, agentId: number, body: ControlBody | undefined) => ActionResult;
+
+  await fastify.register(async (api) => {
+    api.addHook('onRequest', authorizeControlRequest);
+
+    api.get<RoomParams>('/rooms/:room/state', async (req, reply) => {
+      const room = findControlRoom(req.params.room, reply);
+      return room ? getRoomState(room) : reply;
+    });
+
+    api.post<{ Params: { room: string; id: string }; Body: ControlBody | undefined }>(
+      '/rooms/:room/agents/:id/ready',
+      async (req, reply) => {
+        const room = findControlRoom(req.params.room, reply);
+        if (!room) {
+          return reply;
+        }
+        const agentId = resolveControlAgent(room, Number(req.params.id) || req.params.id, reply);
+        if (agentId === null) {
+          return reply;
+        }
+        // Without a `value` the button toggles, which suits a Stream Deck key
+        const value = typeof req.body?.value === 'boolean' ? req.body.value : !room.agentReadyState.get(agentId);
+        return sendActionResult(room, setAgentReady(room, agentId, value), reply);
+      }
+    );
+
+    const actions: Array<[string, ActionHandler]> = [
+      ['/rooms/:room/start', startRaid],
+      ['/rooms/:room/travel', requestTravel],
+      ['/rooms/:room/travel/execute', executeTravel],
+      ['/rooms/:room/reset', resetRaid],
+      ['/rooms/:room/settings', changeLobbySettingsFromBody],
+    ];
+    for (const [route, action] of actions) {
+      api.post<RoomParams>(route, async (req, reply) => {
+        const room = findControlRoom(req.params.room, reply);
+        if (!room) {
+          return reply;
+        }
+        const agentId = resolveControlAgent(room, req.body?.agentId, reply);
+        if (agentId === null) {
+          return reply;
+        }
+        fastify.log.info(`Control API ${route} in room ${room.code} as Agent ${agentId}`);
+        return sendActionResult(room, action(room, agentId, req.body), reply);
+      });
+    }
+  });
+}
+
 // Start server
 async function start() {
   try {
     await registerPlugins();
     await registerRoutes();
 
+    const runCount = await loadRuns(fastify.log);
+    fastify.log.info(`Loaded ${runCount} completed runs`);
+
     const port = parseInt(process.env.PORT || '3001', 10);
     const host = process.env.HOST || '0.0.0.0';
 
@@ -358,10 +992,13 @@ async function start() {
     fastify.log.info(`Server listening on http://${host}:${port}`);
     fastify.log.info(`WebSocket endpoint: ws://${host}:${port}/ws`);
 
+    const heartbeatTimer = setInterval(runHeartbeat, HEARTBEAT_INTERVAL_MS);
+
     startDiscordBot(fastify.log);
 
     const shutdown = async (signal: string) => {
       fastify.log.info({ signal }, 'Shutting down server');
+      clearInterval(heartbeatTimer);
       try {
         await fastify.close();
       } catch (err) {
@@ -0,0 +1,169 @@
+import { readFile } from 'fs/promises';
+import * as path from 'path';
+import type { ChatMessage, ChatToolCall } from './conversations';
+
+// Chat-completion providers for the ISAC bot. The bot only needs "messages and tools in,
+// text and tool calls out", so anything that speaks the OpenAI chat format works, and the
+// mock lets the dispatcher run without network access or a key.
+
+export type ProviderMessage = { role: 'system'; content: string } | ChatMessage;
+
+export interface ToolDefinition {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+export interface CompletionRequest {
+  messages: ProviderMessage[];
+  tools: ToolDefinition[];
+}
+
+export interface Completion {
+  toolCalls: ChatToolCall[];
+  textContent: string | null;
+}
+
+export interface LLMProvider {
+  name: string; // for logs
+  // Rejects when the provider can't be reached or returns an error
+  complete: (request: CompletionRequest) => Promise<Completion>;
+}
+
+// ── OpenAI-compatible HTTP provider ──────────────────────────
+
+export const DEFAULT_LLM_BASE_URL = 'https://openrouter.ai/api/v1';
+export const DEFAULT_LLM_MODEL = 'moonshotai/kimi-k2';
+export const DEFAULT_LLM_TIMEOUT_MS = 60000;
+
+export interface HttpProviderOptions {
+  baseUrl: string; // e.g. https://openrouter.ai/api/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // local servers often don't need one
+  timeoutMs?: number; // give up on a request after this long; DEFAULT_LLM_TIMEOUT_MS if unset
+}
+
+export function createHttpProvider(options: HttpProviderOptions): LLMProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+
+  return {
+    name: `${options.model} via ${new URL(url).host}`,
+    complete: async ({ messages, tools }) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (options.apiKey) {
+        headers.Authorization = `Bearer ${options.apiKey}`;
+      }
+      let data: {
+        choices?: Array<{
+          message?: {
+            content?: string | null;
+            tool_calls?: Array<Omit<ChatToolCall, 'id' | 'type'> & { id?: string }>;
+          };
+        }>;
+      };
+      try {
+        // The signal also covers reading the body, so a stalled stream can't hang the caller
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            model: options.model,
+            messages,
+            tools,
+            tool_choice: 'auto',
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        if (!response.ok) {
+          throw new Error(`${response.status} ${await response.text()}`);
+        }
+
+        data = (await response.json()) as typeof data;
+      } catch (err) {
+        if (err instanceof Error && err.name === 'TimeoutError') {
+          throw new Error(`No response within ${timeoutMs}ms`);
+        }
+        throw err;
+      }
+
+      const msg = data.choices?.[0]?.message;
+      return {
+        // History needs an ID to pair each result with its call; not every model sends one
+        toolCalls: (msg?.tool_calls ?? []).map((call, index) => ({
+          id: call.id || `call_${index}`,
+          type: 'function' as const,
+          function: call.function,
+        })),
+        textContent: msg?.content ?? null,
+      };
+    },
+  };
+}
+
+// ── Scripted mock provider ───────────────────────────────────
+
+// One canned reply. Tool arguments are given as an object and sent on as JSON, like a model would.
+export interface MockStep {
+  text?: string | null;
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+}
+
+export interface MockProvider extends LLMProvider {
+  // Every request received, oldest first, so a test can check what the model was sent
+  requests: CompletionRequest[];
+}
+
+const MOCK_FALLBACK_TEXT = 'ISAC offline simulation. No scripted response remaining, Agent.';
+
+// Replies with the steps in order, one per request. A function step decides from the request,
+// which suits conversations whose order isn't fixed. After the last step it answers with text.
+export function createMockProvider(script: Array<MockStep | ((request: CompletionRequest) => MockStep)> = []): MockProvider {
+  const requests: CompletionRequest[] = [];
+  let callCount = 0;
+
+  return {
+    name: 'mock',
+    requests,
+    complete: async (request) => {
+      requests.push(request);
+      const next = script[requests.length - 1];
+      const step = typeof next === 'function' ? next(request) : next ?? { text: MOCK_FALLBACK_TEXT };
+      return {
+        toolCalls: (step.toolCalls ?? []).map((call) => ({
+          id: `mock_call_${++callCount}`,
+          type: 'function' as const,
+          function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+        })),
+        textContent: step.text ?? null,
+      };
+    },
+  };
+}
+
+// ── Configuration ────────────────────────────────────────────
+
+// Builds the provider named by LLM_PROVIDER ('http' by default, or 'mock'). Returns null when
+// the HTTP provider would need a key that isn't set.
+export async function createProviderFromEnv(): Promise<LLMProvider | null> {
+  if (process.env.LLM_PROVIDER === 'mock') {
+    const scriptFile = process.env.LLM_MOCK_SCRIPT;
+    const script = scriptFile
+      ? (JSON.parse(await readFile(path.resolve(scriptFile), 'utf8')) as MockStep[])
+      : [];
+    return createMockProvider(Array.isArray(script) ? script : []);
+  }
+
+  const baseUrl = process.env.LLM_BASE_URL || DEFAULT_LLM_BASE_URL;
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENROUTER_API_KEY;
+  // A custom endpoint may be a local server that takes no key; OpenRouter always needs one
+  if (!apiKey && !process.env.LLM_BASE_URL) {
+    return null;
+  }
+  return createHttpProvider({
+    baseUrl,
+    model: process.env.LLM_MODEL || DEFAULT_LLM_MODEL,
+    apiKey,
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || undefined,
+  });
+}
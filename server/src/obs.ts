@@ -0,0 +1,545 @@
+import { AGENT_COLOR_HEX, MAX_AGENTS, PROTOCOL_VERSION } from 'shd-overlay-protocol';
+
+// Standalone page for an OBS browser source. It connects back to /ws as a spectator and
+// renders the same agent list, countdown and travel indicator as the desktop overlay.
+
+export const OBS_THEMES = ['default', 'minimal', 'light'] as const;
+export const OBS_LAYOUTS = ['vertical', 'horizontal', 'compact'] as const;
+
+export type ObsTheme = (typeof OBS_THEMES)[number];
+export type ObsLayout = (typeof OBS_LAYOUTS)[number];
+
+export interface ObsOptions {
+  theme: ObsTheme;
+  layout: ObsLayout;
+  scale: number;
+}
+
+export interface ObsQuery {
+  theme?: string;
+  layout?: string;
+  scale?: string;
+}
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+
+function pick<T extends string>(allowed: readonly T[], value: string | undefined, fallback: T): T {
+  return allowed.find((option) => option === value) ?? fallback;
+}
+
+// Unknown or out-of-range values fall back to the defaults rather than failing the page
+export function parseObsOptions(query: ObsQuery): ObsOptions {
+  const scale = Number(query.scale);
+  return {
+    theme: pick(OBS_THEMES, query.theme, 'default'),
+    layout: pick(OBS_LAYOUTS, query.layout, 'vertical'),
+    scale: Number.isFinite(scale) ? Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale)) : 1,
+  };
+}
+
+// JSON that is safe to drop inside a <script> tag
+function inlineJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+const THEME_CSS: Record<ObsTheme, string> = {
+  default: `
+    --primary: #ff6b35;
+    --primary-glow: rgba(255, 107, 53, 0.6);
+    --success: #3fb950;
+    --success-glow: rgba(63, 185, 80, 0.5);
+    --blue: #58a6ff;
+    --blue-glow: rgba(88, 166, 255, 0.4);
+    --text: #e6edf3;
+    --text-dim: #6e7681;
+    --bg-row: rgba(22, 27, 34, 0.85);
+    --bg-banner: rgba(13, 17, 23, 0.85);
+    --border: rgba(48, 54, 61, 0.6);
+    --text-shadow: none;`,
+  minimal: `
+    --primary: #ff6b35;
+    --primary-glow: rgba(255, 107, 53, 0.6);
+    --success: #3fb950;
+    --success-glow: rgba(63, 185, 80, 0.5);
+    --blue: #58a6ff;
+    --blue-glow: rgba(88, 166, 255, 0.4);
+    --text: #ffffff;
+    --text-dim: #c9d1d9;
+    --bg-row: transparent;
+    --bg-banner: transparent;
+    --border: transparent;
+    --text-shadow: 0 1px 3px rgba(0, 0, 0, 0.9), 0 0 2px rgba(0, 0, 0, 0.9);`,
+  light: `
+    --primary: #d9480f;
+    --primary-glow: rgba(217, 72, 15, 0.35);
+    --success: #1a7f37;
+    --success-glow: rgba(26, 127, 55, 0.35);
+    --blue: #0969da;
+    --blue-glow: rgba(9, 105, 218, 0.3);
+    --text: #1f2328;
+    --text-dim: #57606a;
+    --bg-row: rgba(255, 255, 255, 0.92);
+    --bg-banner: rgba(255, 255, 255, 0.92);
+    --border: rgba(208, 215, 222, 0.9);
+    --text-shadow: none;`,
+};
+
+const PAGE_SCRIPT = `
+(function () {
+  var config = window.OBS_CONFIG;
+  var agentList = document.getElementById('agentList');
+  var modeIndicator = document.getElementById('modeIndicator');
+  var countdown = document.getElementById('countdown');
+  var countdownValue = document.getElementById('countdownValue');
+  var statusText = document.getElementById('statusText');
+
+  var state = { agents: {}, names: {}, colors: {}, reconnecting: {}, rtt: {}, clientRtt: {}, latency: {}, leaderId: null, travelMode: false };
+  var running = false;
+  var countdownInterval = null;
+  var reconnectDelay = 1000;
+  var lastError = null;
+
+  // Offset between the server clock and this machine's, from the lowest-RTT ping/pong sample
+  var clockSamples = [];
+  var clockOffset = 0;
+
+  function addClockSample(sentAt, serverTime, receivedAt) {
+    var rtt = receivedAt - sentAt;
+    if (rtt < 0) return;
+    clockSamples.push({ rtt: rtt, offset: serverTime - (sentAt + rtt / 2) });
+    if (clockSamples.length > 8) clockSamples.shift();
+    var best = clockSamples[0];
+    for (var i = 1; i < clockSamples.length; i += 1) {
+      if (clockSamples[i].rtt < best.rtt) best = clockSamples[i];
+    }
+    clockOffset = best.offset;
+  }
+
+  function joinedAgentIds() {
+    var ids = [];
+    for (var i = 1; i <= config.maxAgents; i += 1) {
+      if (state.names[i] && state.names[i].trim()) ids.push(i);
+    }
+    return ids;
+  }
+
+  function renderAgents() {
+    agentList.innerHTML = '';
+    var ids = joinedAgentIds();
+    var allReady = ids.length > 0;
+    ids.forEach(function (id) {
+      var ready = !!state.agents[id];
+      var reconnecting = !!state.reconnecting[id];
+      if (!ready) allReady = false;
+
+      var row = document.createElement('div');
+      row.className = 'agent-row ' + (reconnecting ? 'reconnecting' : ready ? 'ready' : 'unready');
+      if (id === state.leaderId) row.className += ' leader';
+      if (config.agentColors[state.colors[id]]) row.style.setProperty('--agent-color', config.agentColors[state.colors[id]]);
+
+      var dot = document.createElement('span');
+      dot.className = 'status-dot' + (ready && !reconnecting ? ' ready' : '');
+
+      var name = document.createElement('span');
+      name.className = 'agent-name';
+      name.textContent = state.names[id];
+
+      var leaderBadge = document.createElement('span');
+      leaderBadge.className = 'leader-badge';
+      leaderBadge.textContent = '\\u2605';
+
+      var latencyBadge = document.createElement('span');
+      var latency = state.latency[id];
+      latencyBadge.className = 'latency-badge' + (latency > 120 ? ' bad' : latency > 60 ? ' warn' : ' good');
+      latencyBadge.textContent = latency !== undefined && !reconnecting ? Math.round(latency) + 'ms' : '';
+      if (!latencyBadge.textContent) latencyBadge.className += ' hidden';
+
+      var status = document.createElement('span');
+      status.className = 'agent-status';
+      status.textContent = reconnecting ? 'Reconnecting' : ready ? 'Ready' : 'Unready';
+
+      row.append(dot, name, leaderBadge, latencyBadge, status);
+      agentList.appendChild(row);
+    });
+    modeIndicator.classList.toggle('travel-ready', state.travelMode && allReady);
+  }
+
+  function render() {
+    modeIndicator.classList.toggle('hidden', !state.travelMode);
+    // Like the desktop overlay, the agent list steps aside while a run is in progress
+    agentList.classList.toggle('hidden', running && !state.travelMode);
+    renderAgents();
+  }
+
+  function stopCountdown() {
+    if (countdownInterval) {
+      clearInterval(countdownInterval);
+      countdownInterval = null;
+    }
+    countdown.classList.add('hidden');
+  }
+
+  function startCountdown(serverTimestamp, duration) {
+    stopCountdown();
+    var endTime = serverTimestamp - clockOffset + duration;
+    agentList.classList.add('hidden');
+    countdown.classList.remove('hidden');
+    function update() {
+      var remaining = Math.max(0, endTime - Date.now());
+      countdownValue.textContent = String(Math.ceil(remaining / 1000));
+      if (remaining <= 0) {
+        stopCountdown();
+        running = true;
+        render();
+      }
+    }
+    update();
+    countdownInterval = setInterval(update, 100);
+  }
+
+  function applySnapshot(message) {
+    state.agents = message.agents || {};
+    state.names = message.names || {};
+    state.colors = message.colors || {};
+    state.reconnecting = message.reconnecting || {};
+    state.leaderId = message.leaderId;
+    state.rtt = message.rtt || {};
+    state.clientRtt = message.clientRtt || {};
+    updateLatency();
+  }
+
+  // Same source as the desktop overlay: the agent's own measurement, else the server heartbeat
+  function updateLatency() {
+    state.latency = {};
+    for (var i = 1; i <= config.maxAgents; i += 1) {
+      var rtt = state.clientRtt[i] !== null && state.clientRtt[i] !== undefined ? state.clientRtt[i] : state.rtt[i];
+      if (typeof rtt === 'number') state.latency[i] = rtt;
+    }
+  }
+
+  function handleMessage(message) {
+    switch (message.type) {
+      case 'spectating':
+        applySnapshot(message);
+        state.travelMode = message.travelMode;
+        statusText.classList.add('hidden');
+        render();
+        break;
+      case 'ready_state':
+        applySnapshot(message);
+        render();
+        break;
+      case 'latency':
+        state.rtt = message.rtt || {};
+        updateLatency();
+        render();
+        break;
+      case 'countdown':
+        if (!state.travelMode) startCountdown(message.timestamp, message.duration);
+        break;
+      case 'travel_mode':
+        state.travelMode = message.active;
+        render();
+        break;
+      case 'reset':
+        running = false;
+        state.travelMode = false;
+        stopCountdown();
+        render();
+        break;
+      case 'pong':
+        if (typeof message.clientTime === 'number') {
+          addClockSample(message.clientTime, message.timestamp, Date.now());
+        }
+        break;
+      case 'error':
+        lastError = message.message;
+        statusText.textContent = message.message;
+        statusText.classList.remove('hidden');
+        break;
+    }
+  }
+
+  function connect() {
+    var protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+    var ws = new WebSocket(protocol + '//' + location.host + '/ws?role=spectator&room=' + encodeURIComponent(config.room));
+    var pingTimer = null;
+    var pingCount = 0;
+
+    function ping() {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      ws.send(JSON.stringify({ type: 'ping', clientTime: Date.now() }));
+      pingCount += 1;
+      // A quick burst for a usable offset, then a slow refresh
+      pingTimer = setTimeout(ping, pingCount < 8 ? 250 : 15000);
+    }
+
+    ws.onopen = function () {
+      reconnectDelay = 1000;
+      lastError = null;
+      var hello = { type: 'hello', protocolVersion: config.protocolVersion, role: 'spectator' };
+      // Servers with an access token need it on the page URL too: /obs/<room>?token=...
+      var token = new URLSearchParams(location.search).get('token');
+      if (token) hello.token = token;
+      ws.send(JSON.stringify(hello));
+      ping();
+    };
+    ws.onmessage = function (event) {
+      try {
+        handleMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.error('Bad message', e);
+      }
+    };
+    ws.onclose = function (event) {
+      if (pingTimer) clearTimeout(pingTimer);
+      clockSamples = [];
+      statusText.classList.remove('hidden');
+      // 1008 means the server refused the page (bad token, other protocol version); retrying can't help
+      if (event.code === 1008) {
+        statusText.textContent = (lastError || 'Connection refused: ' + (event.reason || 'policy violation') + '.') + ' Reload the page once it is fixed.';
+        return;
+      }
+      statusText.textContent = 'Reconnecting...';
+      setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, 15000);
+    };
+  }
+
+  connect();
+})();
+`;
+
+export function renderObsPage(room: string, options: ObsOptions): string {
+  const config = { room, protocolVersion: PROTOCOL_VERSION, maxAgents: MAX_AGENTS, agentColors: AGENT_COLOR_HEX };
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>SHD Overlay · ${room}</title>
+  <style>
+    :root {${THEME_CSS[options.theme]}
+      --radius-sm: 8px;
+      --scale: ${options.scale};
+    }
+
+    * {
+      box-sizing: border-box;
+      margin: 0;
+      padding: 0;
+    }
+
+    html, body {
+      background: transparent;
+      overflow: hidden;
+      height: 100%;
+      width: 100%;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: calc(16px * var(--scale));
+      -webkit-font-smoothing: antialiased;
+      text-shadow: var(--text-shadow);
+    }
+
+    /* ── Agent List ───────────────────────────────────── */
+    .agent-list {
+      position: fixed;
+      top: 1.25rem;
+      left: 1.25rem;
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+    }
+
+    .layout-horizontal .agent-list {
+      right: 1.25rem;
+      flex-direction: row;
+      flex-wrap: wrap;
+    }
+
+    .agent-row {
+      display: flex;
+      align-items: center;
+      gap: 0.625rem;
+      padding: 0.5rem 0.875rem;
+      background: var(--bg-row);
+      border: 1px solid var(--border);
+      border-radius: var(--radius-sm);
+      color: var(--text-dim);
+      font-size: 0.85rem;
+      min-width: 12rem;
+      transition: all 0.3s ease;
+    }
+
+    .layout-compact .agent-row {
+      gap: 0.4rem;
+      padding: 0.2rem 0.5rem;
+      min-width: 0;
+      font-size: 0.75rem;
+    }
+
+    .layout-compact .agent-status {
+      display: none;
+    }
+
+    .agent-row.ready {
+      color: var(--success);
+      box-shadow: inset 3px 0 0 var(--success);
+    }
+
+    .agent-row.unready {
+      box-shadow: inset 3px 0 0 var(--text-dim);
+    }
+
+    .agent-row.reconnecting {
+      border-style: dashed;
+      box-shadow: inset 3px 0 0 var(--primary);
+      opacity: 0.7;
+    }
+
+    .status-dot {
+      width: 0.5rem;
+      height: 0.5rem;
+      border-radius: 50%;
+      background: var(--text-dim);
+      flex-shrink: 0;
+    }
+
+    .status-dot.ready {
+      background: var(--success);
+      box-shadow: 0 0 8px var(--success-glow);
+    }
+
+    .agent-row.reconnecting .status-dot {
+      background: var(--primary);
+      animation: reconnectBlink 1s ease-in-out infinite;
+    }
+
+    @keyframes reconnectBlink {
+      0%, 100% { opacity: 1; }
+      50% { opacity: 0.3; }
+    }
+
+    .agent-name {
+      flex: 1;
+      color: var(--agent-color, var(--text));
+      font-weight: 500;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .leader-badge {
+      display: none;
+      color: var(--primary);
+      font-size: 0.75rem;
+    }
+
+    .agent-row.leader .leader-badge {
+      display: inline;
+    }
+
+    .latency-badge {
+      font-size: 0.65rem;
+      font-weight: 700;
+      padding: 1px 5px;
+      border-radius: 4px;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .latency-badge.good { color: var(--success); }
+    .latency-badge.warn { color: #d29922; }
+    .latency-badge.bad { color: #f85149; }
+
+    .layout-compact .latency-badge {
+      display: none;
+    }
+
+    .agent-status {
+      text-transform: uppercase;
+      font-weight: 700;
+      font-size: 0.68rem;
+      letter-spacing: 1.2px;
+    }
+
+    /* ── Countdown ────────────────────────────────────── */
+    .countdown {
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      text-align: center;
+    }
+
+    .countdown-value {
+      font-size: 6rem;
+      font-weight: 900;
+      color: var(--primary);
+      text-shadow: 0 0 40px var(--primary-glow);
+      line-height: 1;
+    }
+
+    .countdown-label {
+      font-size: 0.85rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 3px;
+      color: var(--primary);
+      margin-top: 0.5rem;
+    }
+
+    /* ── Travel Mode Indicator ────────────────────────── */
+    .mode-indicator {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      padding: 0.75rem 1.5rem;
+      font-size: 0.85rem;
+      font-weight: 700;
+      letter-spacing: 2.5px;
+      text-transform: uppercase;
+      text-align: center;
+      color: var(--blue);
+      background: var(--bg-banner);
+      border-bottom: 2px solid var(--blue-glow);
+    }
+
+    .mode-indicator.travel-ready {
+      color: var(--success);
+      border-bottom-color: var(--success-glow);
+    }
+
+    .mode-indicator:not(.hidden) ~ .agent-list {
+      top: 3.5rem;
+    }
+
+    .status-text {
+      position: fixed;
+      bottom: 1rem;
+      left: 1.25rem;
+      font-size: 0.75rem;
+      color: var(--text-dim);
+    }
+
+    .hidden {
+      display: none !important;
+    }
+  </style>
+</head>
+<body class="layout-${options.layout}">
+  <div id="modeIndicator" class="mode-indicator hidden">READY FOR TRAVEL</div>
+  <div id="agentList" class="agent-list"></div>
+  <div id="countdown" class="countdown hidden">
+    <div id="countdownValue" class="countdown-value">3</div>
+    <div class="countdown-label">Starting</div>
+  </div>
+  <div id="statusText" class="status-text">Connecting...</div>
+
+  <script>window.OBS_CONFIG = ${inlineJson(config)};</script>
+  <script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,410 @@
+import { randomBytes, randomInt } from 'crypto';
+import type { WebSocket } from 'ws';
+import { AGENT_COLORS, DEFAULT_LOBBY_SETTINGS, LOBBY_SETTINGS_LIMITS, MAX_AGENTS } from 'shd-overlay-protocol';
+import type { AgentColor, LobbyPolicy, LobbySettings, RoomSnapshot } from 'shd-overlay-protocol';
+import type { ActiveRun } from './runs';
+
+// Generated codes skip look-alike characters (0/O, 1/I) so they can be read out over voice
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 5;
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{3,16}$/;
+const DEFAULT_LOBBY_POLICY: LobbyPolicy = 'anyone';
+
+export interface Room {
+  code: string;
+  clients: Set<WebSocket>;
+  clientAgents: Map<WebSocket, number>;
+  agentReadyState: Map<number, boolean>;
+  agentNames: Map<number, string>;
+  agentColors: Map<number, AgentColor>;
+  resumeTokens: Map<number, string>;
+  // Agents whose socket dropped and whose slot is held until the timer fires
+  reconnectTimers: Map<number, ReturnType<typeof setTimeout>>;
+  // Heartbeat bookkeeping, kept while a slot is held so the overlay can show when the agent was last seen
+  agentLastSeen: Map<number, number>;
+  agentRtt: Map<number, number>;
+  // What each agent's own clock sync measured (clock_report)
+  agentClockReports: Map<number, { rtt: number; offset: number }>;
+  travelMode: boolean;
+  leaderId: number | null;
+  policy: LobbyPolicy;
+  settings: LobbySettings;
+  activeRun: ActiveRun | null;
+  createdAt: number;
+}
+
+export interface SlotHoldOptions {
+  holdMs: number;
+  onReleased: (room: Room, agentId: number) => void;
+}
+
+const rooms = new Map<string, Room>();
+const clientRooms = new Map<WebSocket, Room>();
+const resumeSessions = new Map<string, Room>();
+
+export function normalizeRoomCode(raw: unknown): string | null {
+  if (typeof raw !== 'string') {
+    return null;
+  }
+  const code = raw.trim().toUpperCase();
+  return ROOM_CODE_PATTERN.test(code) ? code : null;
+}
+
+function generateRoomCode(): string {
+  let code = '';
+  do {
+    code = '';
+    for (let i = 0; i < ROOM_CODE_LENGTH; i += 1) {
+      code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+    }
+  } while (rooms.has(code));
+  return code;
+}
+
+function createRoomWithCode(code: string): Room {
+  const room: Room = {
+    code,
+    clients: new Set(),
+    clientAgents: new Map(),
+    agentReadyState: new Map(),
+    agentNames: new Map(),
+    agentColors: new Map(),
+    resumeTokens: new Map(),
+    reconnectTimers: new Map(),
+    agentLastSeen: new Map(),
+    agentRtt: new Map(),
+    agentClockReports: new Map(),
+    travelMode: false,
+    leaderId: null,
+    policy: DEFAULT_LOBBY_POLICY,
+    settings: { ...DEFAULT_LOBBY_SETTINGS },
+    activeRun: null,
+    createdAt: Date.now(),
+  };
+  rooms.set(code, room);
+  return room;
+}
+
+export function createRoom(): Room {
+  return createRoomWithCode(generateRoomCode());
+}
+
+export function getRoom(code: string): Room | undefined {
+  return rooms.get(code);
+}
+
+export function getOrCreateRoom(code: string): Room {
+  return rooms.get(code) ?? createRoomWithCode(code);
+}
+
+export function getClientRoom(ws: WebSocket): Room | undefined {
+  return clientRooms.get(ws);
+}
+
+export function getRoomCount(): number {
+  return rooms.size;
+}
+
+function getAvailableAgentId(room: Room): number | null {
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    if (!room.agentReadyState.has(i)) {
+      return i;
+    }
+  }
+  return null;
+}
+
+// Slots held for reconnecting agents count as taken
+export function hasFreeAgentSlot(room: Room): boolean {
+  return getAvailableAgentId(room) !== null;
+}
+
+function attachClient(ws: WebSocket, room: Room, agentId: number) {
+  room.clients.add(ws);
+  room.clientAgents.set(ws, agentId);
+  clientRooms.set(ws, room);
+}
+
+function isAgentConnected(room: Room, agentId: number): boolean {
+  return [...room.clientAgents.values()].includes(agentId);
+}
+
+// Prefer an agent who is still connected over one whose slot is only being held
+function pickNextLeader(room: Room): number | null {
+  const connected = [...room.clientAgents.values()];
+  const candidates = connected.length > 0 ? connected : [...room.agentReadyState.keys()];
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+function releaseAgent(room: Room, agentId: number) {
+  room.agentReadyState.delete(agentId);
+  room.agentNames.delete(agentId);
+  room.agentColors.delete(agentId);
+  room.agentLastSeen.delete(agentId);
+  room.agentRtt.delete(agentId);
+  room.agentClockReports.delete(agentId);
+  const token = room.resumeTokens.get(agentId);
+  if (token) {
+    resumeSessions.delete(token);
+    room.resumeTokens.delete(agentId);
+  }
+  const timer = room.reconnectTimers.get(agentId);
+  if (timer) {
+    clearTimeout(timer);
+    room.reconnectTimers.delete(agentId);
+  }
+  if (room.leaderId === agentId) {
+    room.leaderId = pickNextLeader(room);
+  }
+}
+
+// Rooms are dropped once no client is connected and no slot is being held for a reconnect
+function deleteRoomIfEmpty(room: Room) {
+  if (room.clients.size === 0 && room.reconnectTimers.size === 0) {
+    rooms.delete(room.code);
+  }
+}
+
+// New agents get the first colour nobody in the room has; they can pick another with set_color
+function pickAgentColor(room: Room, agentId: number): AgentColor {
+  const taken = new Set(room.agentColors.values());
+  return AGENT_COLORS.find((color) => !taken.has(color)) ?? AGENT_COLORS[(agentId - 1) % AGENT_COLORS.length];
+}
+
+// Assign the client an agent slot in the room. Returns null when the room is full.
+export function addClientToRoom(ws: WebSocket, room: Room): number | null {
+  const agentId = getAvailableAgentId(room);
+  if (!agentId) {
+    return null;
+  }
+  attachClient(ws, room, agentId);
+  room.agentReadyState.set(agentId, false);
+  room.agentNames.set(agentId, '');
+  room.agentColors.set(agentId, pickAgentColor(room, agentId));
+  // The first agent into a room leads it, as does anyone arriving while the leader is away
+  if (room.leaderId === null || !isAgentConnected(room, room.leaderId)) {
+    room.leaderId = agentId;
+  }
+  const token = randomBytes(16).toString('hex');
+  room.resumeTokens.set(agentId, token);
+  resumeSessions.set(token, room);
+  return agentId;
+}
+
+// Spectators receive the room's broadcasts but hold no agent slot, so they never count
+// toward readiness or the agent limit
+export function addSpectatorToRoom(ws: WebSocket, room: Room) {
+  room.clients.add(ws);
+  clientRooms.set(ws, room);
+}
+
+export function getResumeToken(room: Room, agentId: number): string {
+  return room.resumeTokens.get(agentId) ?? '';
+}
+
+export function hasResumableSession(token: unknown): boolean {
+  if (typeof token !== 'string') {
+    return false;
+  }
+  const room = resumeSessions.get(token);
+  return !!room && isRoomActive(room);
+}
+
+// Reattach a client to the slot its resume token belongs to. If another socket still holds
+// the slot (the old connection hasn't timed out yet) it is detached and returned so the
+// caller can close it.
+export function resumeClient(
+  ws: WebSocket,
+  token: unknown,
+): { room: Room; agentId: number; replaced?: WebSocket } | null {
+  if (typeof token !== 'string') {
+    return null;
+  }
+  const room = resumeSessions.get(token);
+  if (!room || !isRoomActive(room)) {
+    return null;
+  }
+  let agentId: number | null = null;
+  for (const [id, agentToken] of room.resumeTokens) {
+    if (agentToken === token) {
+      agentId = id;
+      break;
+    }
+  }
+  if (!agentId) {
+    return null;
+  }
+
+  const timer = room.reconnectTimers.get(agentId);
+  if (timer) {
+    clearTimeout(timer);
+    room.reconnectTimers.delete(agentId);
+  }
+
+  let replaced: WebSocket | undefined;
+  for (const [client, id] of room.clientAgents) {
+    if (id === agentId && client !== ws) {
+      replaced = client;
+      room.clients.delete(client);
+      room.clientAgents.delete(client);
+      clientRooms.delete(client);
+    }
+  }
+
+  attachClient(ws, room, agentId);
+  if (room.leaderId === null || !isAgentConnected(room, room.leaderId)) {
+    room.leaderId = agentId;
+  }
+  return { room, agentId, replaced };
+}
+
+// Detach the client from its room. With `hold`, the agent's slot, name and ready flag are
+// kept for `holdMs` so a reconnect carrying the resume token gets them back; otherwise the
+// slot is freed immediately.
+export function removeClientFromRoom(ws: WebSocket, hold?: SlotHoldOptions): Room | undefined {
+  const room = clientRooms.get(ws);
+  if (!room) {
+    return undefined;
+  }
+  clientRooms.delete(ws);
+  room.clients.delete(ws);
+  const agentId = room.clientAgents.get(ws);
+  if (agentId) {
+    room.clientAgents.delete(ws);
+    // A held leader can't act, so someone still connected leads in the meantime
+    if (room.leaderId === agentId && room.clientAgents.size > 0) {
+      room.leaderId = pickNextLeader(room);
+    }
+    if (hold && hold.holdMs > 0) {
+      room.reconnectTimers.set(agentId, setTimeout(() => {
+        room.reconnectTimers.delete(agentId);
+        releaseAgent(room, agentId);
+        deleteRoomIfEmpty(room);
+        hold.onReleased(room, agentId);
+      }, hold.holdMs));
+    } else {
+      releaseAgent(room, agentId);
+    }
+  }
+  deleteRoomIfEmpty(room);
+  return room;
+}
+
+export function isRoomActive(room: Room): boolean {
+  return rooms.get(room.code) === room;
+}
+
+function getReadyStateSnapshot(room: Room): Record<number, boolean> {
+  const snapshot: Record<number, boolean> = {};
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    snapshot[i] = room.agentReadyState.get(i) ?? false;
+  }
+  return snapshot;
+}
+
+function getNameSnapshot(room: Room): Record<number, string> {
+  const snapshot: Record<number, string> = {};
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    snapshot[i] = room.agentNames.get(i) ?? '';
+  }
+  return snapshot;
+}
+
+function getColorSnapshot(room: Room): Record<number, AgentColor | null> {
+  const snapshot: Record<number, AgentColor | null> = {};
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    snapshot[i] = room.agentColors.get(i) ?? null;
+  }
+  return snapshot;
+}
+
+function getReconnectingSnapshot(room: Room): Record<number, boolean> {
+  const snapshot: Record<number, boolean> = {};
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    snapshot[i] = room.reconnectTimers.has(i);
+  }
+  return snapshot;
+}
+
+// Whether the agent may start, travel and reset under the room's policy
+export function canControlRoom(room: Room, agentId: number): boolean {
+  return room.policy === 'anyone' || room.leaderId === agentId;
+}
+
+// Apply a partial settings update. Returns an error message, leaving the settings untouched,
+// when a value is out of range.
+export function updateLobbySettings(room: Room, update: Partial<LobbySettings>): string | null {
+  const next = { ...room.settings };
+  for (const key of Object.keys(LOBBY_SETTINGS_LIMITS) as Array<keyof LobbySettings>) {
+    const value = update[key];
+    if (value === undefined) {
+      continue;
+    }
+    const { min, max } = LOBBY_SETTINGS_LIMITS[key];
+    if (value < min || value > max) {
+      return `${key} must be between ${min} and ${max} ms`;
+    }
+    next[key] = Math.round(value);
+  }
+  room.settings = next;
+  return null;
+}
+
+// Returns false when the target isn't connected (an empty slot, or one held for a reconnect)
+export function transferLeader(room: Room, agentId: number): boolean {
+  if (!isAgentConnected(room, agentId)) {
+    return false;
+  }
+  room.leaderId = agentId;
+  return true;
+}
+
+function getNumberSnapshot(values: Map<number, number>): Record<number, number | null> {
+  const snapshot: Record<number, number | null> = {};
+  for (let i = 1; i <= MAX_AGENTS; i += 1) {
+    snapshot[i] = values.get(i) ?? null;
+  }
+  return snapshot;
+}
+
+export function getLatencySnapshot(room: Room): Pick<RoomSnapshot, 'rtt' | 'lastSeen'> {
+  return {
+    rtt: getNumberSnapshot(room.agentRtt),
+    lastSeen: getNumberSnapshot(room.agentLastSeen),
+  };
+}
+
+export function getRoomSnapshot(room: Room): RoomSnapshot {
+  const clientRtt = new Map<number, number>();
+  const clockOffset = new Map<number, number>();
+  for (const [agentId, report] of room.agentClockReports) {
+    clientRtt.set(agentId, report.rtt);
+    clockOffset.set(agentId, report.offset);
+  }
+  return {
+    agents: getReadyStateSnapshot(room),
+    names: getNameSnapshot(room),
+    colors: getColorSnapshot(room),
+    reconnecting: getReconnectingSnapshot(room),
+    leaderId: room.leaderId,
+    policy: room.policy,
+    ...getLatencySnapshot(room),
+    clientRtt: getNumberSnapshot(clientRtt),
+    clockOffset: getNumberSnapshot(clockOffset),
+  };
+}
+
+// Agents whose slots are only being held for a reconnect neither count as ready nor block
+export function areAllConnectedReady(room: Room): boolean {
+  let connectedCount = 0;
+  for (const [agentId, ready] of room.agentReadyState) {
+    if (room.reconnectTimers.has(agentId)) {
+      continue;
+    }
+    if (!ready) {
+      return false;
+    }
+    connectedCount += 1;
+  }
+  return connectedCount > 0;
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from 'crypto';
+import { copyFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import * as path from 'path';
+import type { RunSplit } from 'shd-overlay-protocol';
+
+export interface RunParticipant {
+  agentId: number;
+  name: string;
+}
+
+export interface ActiveRun {
+  id: string;
+  room: string;
+  startedAt: number; // server clock, the moment the countdown reaches zero
+  participants: RunParticipant[];
+  splits: RunSplit[];
+}
+
+export interface RunRecord extends ActiveRun {
+  finishedAt: number;
+  totalMs: number;
+}
+
+const RUNS_FILE = path.resolve(process.env.RUNS_FILE || 'data/runs.json');
+const MAX_SPLIT_NAME_LENGTH = 48;
+
+let completedRuns: RunRecord[] = [];
+// Serialises writes so two runs finishing together can't interleave
+let saveQueue: Promise<void> = Promise.resolve();
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isRunRecord(value: unknown): value is RunRecord {
+  const run = value as Partial<Record<keyof RunRecord, unknown>> | null;
+  if (!run || typeof run !== 'object') {
+    return false;
+  }
+  return typeof run.id === 'string'
+    && typeof run.room === 'string'
+    && isFiniteNumber(run.startedAt)
+    && isFiniteNumber(run.finishedAt)
+    && isFiniteNumber(run.totalMs)
+    && Array.isArray(run.participants)
+    && run.participants.every((p: Partial<RunParticipant> | null) => !!p && isFiniteNumber(p.agentId) && typeof p.name === 'string')
+    && Array.isArray(run.splits)
+    && run.splits.every((s: Partial<RunSplit> | null) => !!s && typeof s.name === 'string' && isFiniteNumber(s.agentId) && isFiniteNumber(s.elapsedMs));
+}
+
+// Load the history. A damaged file never stops the server: it is moved aside (or copied,
+// when only some entries are unusable) and the server carries on with what could be read.
+export async function loadRuns(log: { warn: (...args: unknown[]) => void }): Promise<number> {
+  completedRuns = [];
+  let raw: string;
+  try {
+    raw = await readFile(RUNS_FILE, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.warn(`Could not read ${RUNS_FILE}, starting with no run history: ${err}`);
+    }
+    return 0;
+  }
+
+  const corruptFile = `${RUNS_FILE}.corrupt-${Date.now()}`;
+  let parsed: unknown = null;
+  let reason = 'not a list of runs';
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    reason = (err as Error).message;
+  }
+  if (!Array.isArray(parsed)) {
+    try {
+      await rename(RUNS_FILE, corruptFile);
+      log.warn(`${RUNS_FILE} is unreadable (${reason}), moved to ${corruptFile}; starting with no run history`);
+    } catch (err) {
+      log.warn(`${RUNS_FILE} is unreadable (${reason}) and could not be moved aside: ${err}`);
+    }
+    return 0;
+  }
+
+  completedRuns = parsed.filter(isRunRecord);
+  const skipped = parsed.length - completedRuns.length;
+  if (skipped > 0) {
+    // The next save drops the bad entries, so keep the original for a hand repair
+    try {
+      await copyFile(RUNS_FILE, corruptFile);
+      log.warn(`Skipped ${skipped} malformed runs in ${RUNS_FILE}; the original was copied to ${corruptFile}`);
+    } catch (err) {
+      log.warn(`Skipped ${skipped} malformed runs in ${RUNS_FILE}, and could not copy the original: ${err}`);
+    }
+  }
+  return completedRuns.length;
+}
+
+async function writeRuns(): Promise<void> {
+  await mkdir(path.dirname(RUNS_FILE), { recursive: true });
+  // Write to a temp file and rename so a crash mid-write never truncates the history
+  const tmpFile = `${RUNS_FILE}.tmp`;
+  await writeFile(tmpFile, JSON.stringify(completedRuns, null, 2));
+  await rename(tmpFile, RUNS_FILE);
+}
+
+export function startRun(room: string, startedAt: number, participants: RunParticipant[]): ActiveRun {
+  return {
+    id: randomUUID(),
+    room,
+    startedAt,
+    participants,
+    splits: [],
+  };
+}
+
+export function recordSplit(run: ActiveRun, name: string, agentId: number, at: number): RunSplit {
+  const split: RunSplit = {
+    name: name.trim().slice(0, MAX_SPLIT_NAME_LENGTH) || `Split ${run.splits.length + 1}`,
+    agentId,
+    elapsedMs: Math.max(0, at - run.startedAt),
+  };
+  run.splits.push(split);
+  return split;
+}
+
+// Complete the run and persist it. The returned promise settles once it is on disk.
+export function finishRun(run: ActiveRun, at: number): { record: RunRecord; saved: Promise<void> } {
+  const record: RunRecord = {
+    ...run,
+    finishedAt: at,
+    totalMs: Math.max(0, at - run.startedAt),
+  };
+  completedRuns.push(record);
+  const saved = saveQueue.then(writeRuns);
+  saveQueue = saved.catch(() => undefined);
+  return { record, saved };
+}
+
+// Newest first, optionally limited to one room
+export function listRuns(room?: string): RunRecord[] {
+  const runs = room !== undefined ? completedRuns.filter((run) => run.room === room) : completedRuns;
+  return [...runs].reverse();
+}
+
+export function getRun(id: string): RunRecord | undefined {
+  return completedRuns.find((run) => run.id === id);
+}
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import type { ChildProcess } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// The control API's bearer token check, against a real server on a free port
+
+const TOKEN = 'control-test-token';
+
+// Starts the server with `env` and resolves with its base URL once it is listening
+function startServer(env: Record<string, string>): Promise<{ child: ChildProcess; baseUrl: string }> {
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: path.resolve(__dirname, '..'),
+    env: { ...process.env, PORT: '0', HOST: '127.0.0.1', DISCORD_BOT_TOKEN: '', ...env },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  return new Promise((resolve, reject) => {
+    let output = '';
+    child.stdout!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = /Server listening at (http:\/\/127\.0\.0\.1:\d+)/.exec(output);
+      if (match) {
+        resolve({ child, baseUrl: match[1] });
+      }
+    });
+    child.stderr!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+    child.on('exit', (code) => reject(new Error(`Server exited with ${code}:\n${output}`)));
+  });
+}
+
+describe('control API', () => {
+  let tmpDir: string;
+  let servers: ChildProcess[] = [];
+  let withToken: string;
+  let withoutToken: string;
+
+  before(async () => {
+    tmpDir = await mkdtemp(path.join(tmpdir(), 'control-test-'));
+    const runsFile = path.join(tmpDir, 'runs.json');
+    const [enabled, disabled] = await Promise.all([
+      startServer({ CONTROL_API_TOKEN: TOKEN, RUNS_FILE: runsFile }),
+      startServer({ CONTROL_API_TOKEN: '', RUNS_FILE: runsFile }),
+    ]);
+    servers = [enabled.child, disabled.child];
+    withToken = enabled.baseUrl;
+    withoutToken = disabled.baseUrl;
+  });
+
+  after(async () => {
+    for (const child of servers) {
+      child.removeAllListeners('exit');
+      child.kill();
+    }
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('is disabled while CONTROL_API_TOKEN is unset', async () => {
+    const response = await fetch(`${withoutToken}/rooms/ALPHA/state`, { headers: { Authorization: 'Bearer anything' } });
+    assert.equal(response.status, 503);
+  });
+
+  it('rejects a missing, malformed or wrong token', async () => {
+    for (const authorization of [undefined, TOKEN, `Basic ${TOKEN}`, 'Bearer wrong-token', `Bearer ${TOKEN}x`]) {
+      const response = await fetch(`${withToken}/rooms/ALPHA/state`, {
+        headers: authorization ? { Authorization: authorization } : {},
+      });
+      assert.equal(response.status, 401, String(authorization));
+    }
+  });
+
+  it('checks the token before saying whether a room exists', async () => {
+    const response = await fetch(`${withToken}/rooms/ALPHA/start`, { method: 'POST' });
+    assert.equal(response.status, 401);
+  });
+
+  it('lets a correct token through', async () => {
+    const response = await fetch(`${withToken}/rooms/ALPHA/state`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), { error: 'Room not found' });
+  });
+});
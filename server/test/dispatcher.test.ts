@@ -0,0 +1,289 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import type {
+  ConfirmationDecision,
+  ConfirmationPrompt,
+  EventFields,
+  EventInfo,
+  GuildGateway,
+  IncomingMessage,
+} from '../src/discord';
+import type { AccessMember } from '../src/eventAccess';
+import type { LLMProvider, MockStep } from '../src/llm';
+
+// Drives the ISAC dispatcher end to end with the scripted mock provider, an in-memory guild
+// and confirmation prompts the test answers itself.
+
+const OWNER_ID = '100000000000000001';
+const OTHER_ID = '100000000000000002';
+// Ten o'clock on March 1st, 2030 in New York
+const RAID_START = Date.parse('2030-03-02T03:00:00Z');
+const HOUR_MS = 3600000;
+
+const quietLog = { info: () => {}, warn: () => {}, error: () => {} };
+
+function createFakeGuild(members: AccessMember[]) {
+  const events = new Map<string, EventInfo>();
+  let nextId = 1;
+
+  const gateway: GuildGateway = {
+    listUpcomingEvents: async () => [...events.values()],
+    fetchEvent: async (eventId) => events.get(eventId) ?? null,
+    createEvent: async (fields: EventFields) => {
+      const id = `event-${nextId++}`;
+      const event: EventInfo = {
+        id,
+        name: fields.name,
+        description: fields.description,
+        startTime: fields.startTime.getTime(),
+        endTime: fields.endTime.getTime(),
+        creatorId: null,
+        url: `https://discord.test/events/${id}`,
+      };
+      events.set(id, event);
+      return event;
+    },
+    editEvent: async (eventId, fields) => {
+      const event = events.get(eventId);
+      if (!event) throw new Error('Unknown Guild Scheduled Event');
+      const updated: EventInfo = {
+        ...event,
+        name: fields.name ?? event.name,
+        description: fields.description ?? event.description,
+        startTime: fields.startTime?.getTime() ?? event.startTime,
+        endTime: fields.endTime?.getTime() ?? event.endTime,
+      };
+      events.set(eventId, updated);
+      return updated;
+    },
+    deleteEvent: async (eventId) => {
+      if (!events.delete(eventId)) throw new Error('Unknown Guild Scheduled Event');
+    },
+    fetchMember: async (userId) => members.find((member) => member.id === userId) ?? null,
+  };
+
+  // An event made in Discord itself by `creatorId`
+  const seed = (name: string, creatorId: string): EventInfo => {
+    const id = `event-${nextId++}`;
+    const event: EventInfo = {
+      id,
+      name,
+      description: null,
+      startTime: RAID_START,
+      endTime: RAID_START + 2 * HOUR_MS,
+      creatorId,
+      url: `https://discord.test/events/${id}`,
+    };
+    events.set(id, event);
+    return event;
+  };
+
+  return { gateway, events, seed };
+}
+
+// Owner records are saved in the background, so wait for the file to appear
+async function readOwners(file: string): Promise<Record<string, string>> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as Record<string, string>;
+    } catch (err) {
+      if (attempt >= 50) throw err;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+}
+
+interface FakePrompt {
+  content: string;
+  answer: (decision: ConfirmationDecision) => void;
+  settled: Promise<string>; // the prompt's final text
+}
+
+function createFakeMessage(guild: GuildGateway, channelId: string, authorId: string, content: string) {
+  const replies: string[] = [];
+  const prompts: FakePrompt[] = [];
+
+  const message: IncomingMessage = {
+    authorId,
+    authorTag: `agent#${authorId.slice(-4)}`,
+    speaker: authorId === OWNER_ID ? 'Kelso' : 'Brenda',
+    channelId,
+    content,
+    guild,
+    reply: async (text) => {
+      replies.push(text);
+    },
+    sendTyping: async () => {},
+    askConfirmation: async (summary, confirmLabel): Promise<ConfirmationPrompt> => {
+      let answer!: (decision: ConfirmationDecision) => void;
+      let settle!: (outcome: string) => void;
+      const decision = new Promise<ConfirmationDecision>((resolve) => { answer = resolve; });
+      const settled = new Promise<string>((resolve) => { settle = resolve; });
+      const prompt = { content: `${summary}\n\n[${confirmLabel}] [Cancel]`, decision, settle: async (outcome: string) => settle(outcome) };
+      prompts.push({ content: prompt.content, answer, settled });
+      return prompt;
+    },
+  };
+
+  return { message, replies, prompts };
+}
+
+describe('ISAC dispatcher', () => {
+  let tmpDir: string;
+  let discord: typeof import('../src/discord.js');
+  let llm: typeof import('../src/llm.js');
+
+  const owner: AccessMember = { id: OWNER_ID, roles: [], hasPermission: () => false };
+  const other: AccessMember = { id: OTHER_ID, roles: [], hasPermission: () => false };
+  // History is kept per channel, so each test talks in its own
+  let channelCount = 0;
+
+  // A dispatcher, guild and channel of its own for each test
+  function setup(script: MockStep[]) {
+    const provider = llm.createMockProvider(script);
+    const dispatch = discord.createMessageDispatcher({ provider, log: quietLog });
+    const guild = createFakeGuild([owner, other]);
+    const channelId = `channel-${++channelCount}`;
+    const send = async (authorId: string, content: string) => {
+      const message = createFakeMessage(guild.gateway, channelId, authorId, content);
+      await dispatch(message.message);
+      return message;
+    };
+    return { provider, send, ...guild };
+  }
+
+  before(async () => {
+    // Owner records and times are read from the environment, so set it up before loading
+    tmpDir = await mkdtemp(path.join(tmpdir(), 'isac-test-'));
+    process.env.DISCORD_EVENT_OWNERS_FILE = path.join(tmpDir, 'event-owners.json');
+    process.env.DISCORD_TIMEZONE = 'America/New_York';
+    discord = await import('../src/discord.js');
+    llm = await import('../src/llm.js');
+  });
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('creates an event in the community timezone and records who asked for it', async () => {
+    const { provider, send, events } = setup([
+      { toolCalls: [{ name: 'create_event', arguments: { title: 'Raid night', description: 'Dark Hours', event_time: '2030-03-01 21:00', duration_hours: 2 } }] },
+    ]);
+
+    const { replies } = await send(OWNER_ID, 'schedule raid night on March 1st at 9pm for two hours');
+
+    assert.equal(events.size, 1);
+    const [created] = events.values();
+    assert.equal(created.name, 'Raid night');
+    assert.equal(created.description, 'Dark Hours');
+    assert.equal(new Date(created.startTime).toISOString(), '2030-03-02T02:00:00.000Z');
+    assert.equal(created.endTime! - created.startTime, 2 * HOUR_MS);
+    assert.deepEqual(replies, [created.url]);
+    assert.equal(provider.requests[0].messages.at(-1)?.content, 'Kelso: schedule raid night on March 1st at 9pm for two hours');
+    assert.equal((await readOwners(process.env.DISCORD_EVENT_OWNERS_FILE!))[created.id], OWNER_ID);
+  });
+
+  // seed() numbers events from 1, so the scripts can name them up front
+  it('edits an event only once the requester confirms', async () => {
+    const { provider, send, events, seed } = setup([
+      { toolCalls: [{ name: 'edit_event', arguments: { event_id: 'event-1', event_time: '2030-03-01 23:00' } }] },
+      { text: 'Affirmative, Agent.' },
+    ]);
+    seed('Raid night', OWNER_ID);
+
+    const { replies, prompts } = await send(OWNER_ID, 'move raid night to 11pm');
+    assert.deepEqual(replies, []);
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0].content, /^Update \*\*Raid night\*\*/);
+    assert.equal(events.get('event-1')!.startTime, RAID_START, 'nothing changes before the answer');
+
+    prompts[0].answer('confirmed');
+    assert.equal(await prompts[0].settled, 'Event **Raid night** updated!');
+    const edited = events.get('event-1')!;
+    assert.equal(new Date(edited.startTime).toISOString(), '2030-03-02T04:00:00.000Z');
+    assert.equal(edited.endTime! - edited.startTime, 2 * HOUR_MS, 'keeps its length');
+
+    // The next request carries the outcome, so the model knows the change happened
+    await send(OWNER_ID, 'thanks');
+    assert.ok(provider.requests[1].messages.some((m) => m.role === 'assistant' && m.content?.endsWith('Confirmed. Event **Raid night** updated!')));
+  });
+
+  it('leaves an event alone when the requester cancels its deletion', async () => {
+    const { provider, send, events, seed } = setup([
+      { toolCalls: [{ name: 'delete_event', arguments: { event_id: 'event-1' } }] },
+      { text: 'Understood, Agent.' },
+    ]);
+    seed('Raid night', OWNER_ID);
+
+    const { prompts } = await send(OWNER_ID, 'delete raid night');
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0].content, /^Delete \*\*Raid night\*\*/);
+
+    prompts[0].answer('cancelled');
+    assert.match(await prompts[0].settled, /Standing down\. No changes were made\.$/);
+    assert.ok(events.has('event-1'));
+
+    await send(OWNER_ID, 'never mind');
+    assert.ok(provider.requests[1].messages.some((m) => m.role === 'assistant' && m.content?.endsWith('Cancelled by the agent. No changes were made.')));
+  });
+
+  it('deletes an event once the requester confirms', async () => {
+    const { send, events, seed } = setup([
+      { toolCalls: [{ name: 'delete_event', arguments: { event_id: 'event-1' } }] },
+    ]);
+    seed('Raid night', OWNER_ID);
+
+    const { prompts } = await send(OWNER_ID, 'delete raid night');
+    prompts[0].answer('confirmed');
+    assert.equal(await prompts[0].settled, 'Event **Raid night** deleted.');
+    assert.equal(events.size, 0);
+  });
+
+  it("refuses to change another agent's event without asking for confirmation", async () => {
+    const { send, events, seed } = setup([
+      { toolCalls: [{ name: 'edit_event', arguments: { event_id: 'event-1', title: 'Mine now' } }] },
+      { toolCalls: [{ name: 'delete_event', arguments: { event_id: 'event-1' } }] },
+    ]);
+    seed('Raid night', OWNER_ID);
+
+    for (const content of ['rename raid night', 'delete raid night']) {
+      const { replies, prompts } = await send(OTHER_ID, content);
+      assert.equal(prompts.length, 0);
+      assert.match(replies[0], /^Access denied, Agent\./);
+    }
+    assert.equal(events.get('event-1')!.name, 'Raid night');
+  });
+
+  it('lists upcoming events', async () => {
+    const { send, seed } = setup([{ toolCalls: [{ name: 'view_events' }] }]);
+    seed('Raid night', OWNER_ID);
+
+    const { replies } = await send(OTHER_ID, 'what is coming up?');
+    assert.equal(replies.length, 1);
+    assert.match(replies[0], /Upcoming Events:\*\*\n\*\*Raid night\*\* — <t:1898650800:F>/);
+  });
+
+  it('answers a call with unreadable arguments and still runs the others', async () => {
+    // The mock always sends valid JSON, so stand in for a model that doesn't
+    const provider: LLMProvider = {
+      name: 'broken',
+      complete: async () => ({
+        textContent: null,
+        toolCalls: [
+          { id: 'call_1', type: 'function', function: { name: 'create_event', arguments: '{not json' } },
+          { id: 'call_2', type: 'function', function: { name: 'view_events', arguments: '{}' } },
+        ],
+      }),
+    };
+    const dispatch = discord.createMessageDispatcher({ provider, log: quietLog });
+    const { gateway } = createFakeGuild([owner]);
+    const { message, replies } = createFakeMessage(gateway, `channel-${++channelCount}`, OWNER_ID, 'make an event and show the list');
+
+    await dispatch(message);
+    assert.equal(replies[0], 'ISAC could not parse that request. Please try again.');
+    assert.match(replies[1], /No events are currently scheduled/);
+  });
+});
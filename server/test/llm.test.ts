@@ -0,0 +1,76 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHttpProvider, createMockProvider } from '../src/llm';
+
+describe('HTTP provider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let respond: (body: string, res: import('http').ServerResponse) => void;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+      req.on('end', () => respond(body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('sends the conversation and numbers tool calls that come without an ID', async () => {
+    let sent: { model?: string; messages?: unknown[] } = {};
+    respond = (body, res) => {
+      sent = JSON.parse(body) as typeof sent;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [{ function: { name: 'view_events', arguments: '{}' } }] } }],
+      }));
+    };
+    const provider = createHttpProvider({ baseUrl, model: 'test-model' });
+
+    const completion = await provider.complete({ messages: [{ role: 'user', content: 'hi' }], tools: [] });
+    assert.equal(sent.model, 'test-model');
+    assert.deepEqual(sent.messages, [{ role: 'user', content: 'hi' }]);
+    assert.deepEqual(completion, {
+      textContent: null,
+      toolCalls: [{ id: 'call_0', type: 'function', function: { name: 'view_events', arguments: '{}' } }],
+    });
+  });
+
+  it('rejects with the status of a failed request', async () => {
+    respond = (_body, res) => {
+      res.statusCode = 429;
+      res.end('slow down');
+    };
+    const provider = createHttpProvider({ baseUrl, model: 'test-model' });
+    await assert.rejects(provider.complete({ messages: [], tools: [] }), { message: '429 slow down' });
+  });
+
+  it('gives up on a provider that never answers', async () => {
+    respond = () => {};
+    const provider = createHttpProvider({ baseUrl, model: 'test-model', timeoutMs: 100 });
+    await assert.rejects(provider.complete({ messages: [], tools: [] }), { message: 'No response within 100ms' });
+  });
+});
+
+describe('mock provider', () => {
+  it('plays the script in order and records each request', async () => {
+    const provider = createMockProvider([
+      { text: 'First' },
+      (request) => ({ text: `Seen ${request.messages.length}` }),
+    ]);
+
+    assert.equal((await provider.complete({ messages: [], tools: [] })).textContent, 'First');
+    assert.equal((await provider.complete({ messages: [{ role: 'user', content: 'hi' }], tools: [] })).textContent, 'Seen 1');
+    assert.match((await provider.complete({ messages: [], tools: [] })).textContent ?? '', /No scripted response remaining/);
+    assert.equal(provider.requests.length, 3);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PROTOCOL_VERSION, validateClientMessage, validateServerMessage } from 'shd-overlay-protocol';
+import type { ClientMessage, ClientMessageType, RoomSnapshot, ServerMessage, ServerMessageType } from 'shd-overlay-protocol';
+
+// One minimal message of every type, carrying only its required fields, pinned to the protocol
+// version they belong to. Adding a type fails the type check, and adding, removing or retyping
+// a required field fails below, so a wire format change has to come with a version bump.
+const WIRE_FORMAT_VERSION = 3;
+
+type ExamplesOf<M extends { type: string }, T extends string> = { [K in T]: Extract<M, { type: K }> };
+
+const SNAPSHOT: RoomSnapshot = {
+  agents: { 1: true },
+  names: { 1: 'Agent Smith' },
+  colors: { 1: 'orange' },
+  reconnecting: { 1: false },
+  leaderId: 1,
+  policy: 'anyone',
+  rtt: { 1: 42 },
+  lastSeen: { 1: 1234567890 },
+  clientRtt: { 1: 38 },
+  clockOffset: { 1: -12 },
+};
+
+const CLIENT_EXAMPLES: ExamplesOf<ClientMessage, ClientMessageType> = {
+  hello: { type: 'hello', protocolVersion: WIRE_FORMAT_VERSION },
+  create_room: { type: 'create_room' },
+  join_room: { type: 'join_room', room: 'K7QXM' },
+  set_name: { type: 'set_name', name: 'Agent Smith' },
+  set_color: { type: 'set_color', color: 'sky' },
+  ready: { type: 'ready', value: true },
+  start_request: { type: 'start_request' },
+  travel_request: { type: 'travel_request' },
+  execute_travel: { type: 'execute_travel' },
+  reset_raid: { type: 'reset_raid' },
+  transfer_leader: { type: 'transfer_leader', agentId: 2 },
+  set_lobby_policy: { type: 'set_lobby_policy', policy: 'leader_only' },
+  update_lobby_settings: { type: 'update_lobby_settings' },
+  split: { type: 'split' },
+  finish: { type: 'finish' },
+  abort: { type: 'abort' },
+  clock_report: { type: 'clock_report', rtt: 38, offset: -12 },
+  ping: { type: 'ping' },
+};
+
+const SERVER_EXAMPLES: ExamplesOf<ServerMessage, ServerMessageType> = {
+  welcome: { type: 'welcome', protocolVersion: WIRE_FORMAT_VERSION, serverVersion: '1.2.0', role: 'agent' },
+  agent_assigned: {
+    type: 'agent_assigned',
+    agentId: 1,
+    room: 'K7QXM',
+    resumeToken: 'token',
+    resumed: false,
+    travelMode: false,
+    settings: { countdownMs: 3000, starterOffsetMs: 0 },
+    ...SNAPSHOT,
+  },
+  spectating: { type: 'spectating', room: 'K7QXM', travelMode: false, settings: { countdownMs: 3000, starterOffsetMs: 0 }, ...SNAPSHOT },
+  ready_state: { type: 'ready_state', ...SNAPSHOT },
+  latency: { type: 'latency', rtt: { 1: 42 }, lastSeen: { 1: 1234567890 } },
+  countdown: { type: 'countdown', timestamp: 1000, duration: 3000 },
+  start: { type: 'start', timestamp: 1000, starterAgentId: 1, starterActionAt: 4000 },
+  lobby_settings: { type: 'lobby_settings', settings: { countdownMs: 5000, starterOffsetMs: 250 } },
+  travel_mode: { type: 'travel_mode', active: true },
+  execute_travel: { type: 'execute_travel' },
+  reset: { type: 'reset' },
+  run_split: { type: 'run_split', runId: 'run-1', split: { name: 'Boss 1', agentId: 1, elapsedMs: 1200 } },
+  run_finished: { type: 'run_finished', runId: 'run-1', totalMs: 5000, splits: [] },
+  run_aborted: { type: 'run_aborted', runId: 'run-1' },
+  error: { type: 'error', code: 'ROOM_FULL', message: 'Room is full' },
+  pong: { type: 'pong', timestamp: 1000 },
+};
+
+function withoutField(message: object, field: string): Record<string, unknown> {
+  const copy: Record<string, unknown> = { ...message };
+  delete copy[field];
+  return copy;
+}
+
+describe('protocol wire format', () => {
+  it('matches the examples for this protocol version', () => {
+    assert.equal(PROTOCOL_VERSION, WIRE_FORMAT_VERSION, 'update the examples alongside PROTOCOL_VERSION');
+  });
+
+  for (const [side, examples, validate] of [
+    ['client', CLIENT_EXAMPLES, validateClientMessage],
+    ['server', SERVER_EXAMPLES, validateServerMessage],
+  ] as const) {
+    it(`accepts every ${side} message example`, () => {
+      for (const example of Object.values(examples)) {
+        const result = validate(example);
+        assert.ok(result.ok, `${example.type}: ${result.ok ? '' : result.reason}`);
+      }
+    });
+
+    it(`requires every field of the ${side} message examples`, () => {
+      for (const example of Object.values(examples)) {
+        for (const field of Object.keys(example).filter((key) => key !== 'type')) {
+          assert.equal(validate(withoutField(example, field)).ok, false, `${example.type} without ${field}`);
+        }
+      }
+    });
+  }
+});
+
+describe('validateClientMessage', () => {
+  it('rejects anything that is not an object with a string type', () => {
+    for (const value of [null, 'ready', 42, [], {}, { type: 7 }]) {
+      const result = validateClientMessage(value);
+      assert.equal(result.ok, false);
+      assert.equal(result.ok ? undefined : result.code, 'INVALID_PAYLOAD');
+    }
+  });
+
+  it('reports an unknown type with the type it saw', () => {
+    assert.deepEqual(validateClientMessage({ type: 'teleport' }), {
+      ok: false,
+      code: 'UNKNOWN_MESSAGE_TYPE',
+      reason: 'Unknown message type "teleport"',
+      type: 'teleport',
+    });
+    // Server messages are not valid from a client
+    assert.equal(validateClientMessage({ type: 'reset' }).ok, false);
+  });
+
+  it('names a missing or mistyped field', () => {
+    assert.deepEqual(validateClientMessage({ type: 'ready' }), {
+      ok: false,
+      code: 'INVALID_PAYLOAD',
+      reason: '"ready" is missing field "value"',
+      type: 'ready',
+    });
+    assert.deepEqual(validateClientMessage({ type: 'ready', value: 'yes' }), {
+      ok: false,
+      code: 'INVALID_PAYLOAD',
+      reason: '"ready" has an invalid "value"',
+      type: 'ready',
+    });
+  });
+
+  it('checks optional fields only when they are present', () => {
+    assert.ok(validateClientMessage({ type: 'hello', protocolVersion: 3, role: 'spectator', token: 'secret' }).ok);
+    assert.equal(validateClientMessage({ type: 'hello', protocolVersion: 3, role: 'admin' }).ok, false);
+    assert.ok(validateClientMessage({ type: 'update_lobby_settings', countdownMs: 5000 }).ok);
+    assert.equal(validateClientMessage({ type: 'update_lobby_settings', starterOffsetMs: '250' }).ok, false);
+  });
+
+  it('rejects out-of-range values the types allow', () => {
+    assert.equal(validateClientMessage({ type: 'transfer_leader', agentId: 0 }).ok, false);
+    assert.equal(validateClientMessage({ type: 'transfer_leader', agentId: 1.5 }).ok, false);
+    assert.equal(validateClientMessage({ type: 'clock_report', rtt: Infinity, offset: 0 }).ok, false);
+    assert.equal(validateClientMessage({ type: 'set_color', color: 'pink' }).ok, false);
+    assert.equal(validateClientMessage({ type: 'set_lobby_policy', policy: 'everyone' }).ok, false);
+  });
+
+  it('ignores unknown extra fields', () => {
+    const result = validateClientMessage({ type: 'ready', value: true, extra: 1 });
+    assert.ok(result.ok);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { WebSocket } from 'ws';
+import { MAX_AGENTS } from 'shd-overlay-protocol';
+import {
+  addClientToRoom,
+  areAllConnectedReady,
+  createRoom,
+  getResumeToken,
+  getRoomSnapshot,
+  hasFreeAgentSlot,
+  isRoomActive,
+  removeClientFromRoom,
+  resumeClient,
+  transferLeader,
+} from '../src/rooms';
+import type { Room } from '../src/rooms';
+
+// Rooms only use sockets as keys, so plain objects stand in for them
+
+const HOLD_MS = 20;
+
+function fakeSocket(): WebSocket {
+  return {} as WebSocket;
+}
+
+// Drops the client with its slot held, resolving once the hold runs out
+function dropWithHold(ws: WebSocket): Promise<number> {
+  return new Promise((resolve) => {
+    removeClientFromRoom(ws, { holdMs: HOLD_MS, onReleased: (_room, agentId) => resolve(agentId) });
+  });
+}
+
+function join(room: Room) {
+  const ws = fakeSocket();
+  const agentId = addClientToRoom(ws, room);
+  assert.ok(agentId);
+  return { ws, agentId };
+}
+
+describe('room slots', () => {
+  it('holds a dropped slot for a resume and counts it as taken', async () => {
+    const room = createRoom();
+    const agents = Array.from({ length: MAX_AGENTS }, () => join(room));
+    assert.equal(hasFreeAgentSlot(room), false);
+
+    const dropped = agents[2];
+    const token = getResumeToken(room, dropped.agentId);
+    room.agentNames.set(dropped.agentId, 'Kelso');
+    const released = dropWithHold(dropped.ws);
+
+    assert.equal(hasFreeAgentSlot(room), false, 'a held slot is not free');
+    assert.equal(addClientToRoom(fakeSocket(), room), null);
+    assert.equal(getRoomSnapshot(room).reconnecting[dropped.agentId], true);
+
+    const comeback = fakeSocket();
+    const resumed = resumeClient(comeback, token);
+    assert.deepEqual(resumed && { agentId: resumed.agentId, replaced: resumed.replaced }, { agentId: dropped.agentId, replaced: undefined });
+    assert.equal(room.agentNames.get(dropped.agentId), 'Kelso');
+    assert.equal(getRoomSnapshot(room).reconnecting[dropped.agentId], false);
+
+    // The hold was cancelled, so the slot is never released
+    const outcome = await Promise.race([released, new Promise((resolve) => setTimeout(() => resolve('kept'), HOLD_MS * 3))]);
+    assert.equal(outcome, 'kept');
+  });
+
+  it('frees a held slot once the hold runs out', async () => {
+    const room = createRoom();
+    const first = join(room);
+    const second = join(room);
+    const token = getResumeToken(room, second.agentId);
+
+    assert.equal(await dropWithHold(second.ws), second.agentId);
+    assert.equal(room.agentReadyState.has(second.agentId), false);
+    assert.equal(resumeClient(fakeSocket(), token), null, 'the token no longer resumes');
+    assert.equal(join(room).agentId, second.agentId, 'the slot is reused');
+
+    removeClientFromRoom(first.ws);
+    assert.ok(isRoomActive(room));
+  });
+
+  it('hands a resumed slot over from a half-open socket', () => {
+    const room = createRoom();
+    const { ws, agentId } = join(room);
+    const comeback = fakeSocket();
+
+    const resumed = resumeClient(comeback, getResumeToken(room, agentId));
+    assert.equal(resumed?.replaced, ws);
+    assert.equal(room.clientAgents.get(comeback), agentId);
+    assert.equal(room.clients.has(ws), false);
+  });
+
+  it('removes the room once its last agent leaves without a hold', () => {
+    const room = createRoom();
+    const { ws } = join(room);
+    removeClientFromRoom(ws);
+    assert.equal(isRoomActive(room), false);
+  });
+});
+
+describe('room leader', () => {
+  it('is the first agent to join', () => {
+    const room = createRoom();
+    const first = join(room);
+    join(room);
+    assert.equal(room.leaderId, first.agentId);
+  });
+
+  it('moves to a connected agent as soon as the leader drops', async () => {
+    const room = createRoom();
+    const leader = join(room);
+    const next = join(room);
+
+    const released = dropWithHold(leader.ws);
+    assert.equal(room.leaderId, next.agentId);
+    assert.equal(transferLeader(room, leader.agentId), false, 'a held slot cannot lead');
+    await released;
+  });
+
+  it('stays with a held leader when nobody else is connected, until someone arrives', async () => {
+    const room = createRoom();
+    const leader = join(room);
+    const released = dropWithHold(leader.ws);
+    assert.equal(room.leaderId, leader.agentId);
+
+    const arriving = join(room);
+    assert.equal(room.leaderId, arriving.agentId);
+    await released;
+  });
+
+  it('can only be transferred to a connected agent', () => {
+    const room = createRoom();
+    join(room);
+    const other = join(room);
+    assert.equal(transferLeader(room, other.agentId), true);
+    assert.equal(room.leaderId, other.agentId);
+    assert.equal(transferLeader(room, MAX_AGENTS), false, 'an empty slot');
+  });
+});
+
+describe('areAllConnectedReady', () => {
+  it('needs at least one connected agent', () => {
+    assert.equal(areAllConnectedReady(createRoom()), false);
+  });
+
+  it('needs every connected agent ready', () => {
+    const room = createRoom();
+    const first = join(room);
+    const second = join(room);
+    room.agentReadyState.set(first.agentId, true);
+    assert.equal(areAllConnectedReady(room), false);
+    room.agentReadyState.set(second.agentId, true);
+    assert.equal(areAllConnectedReady(room), true);
+  });
+
+  it('ignores agents whose slots are held, ready or not', async () => {
+    const room = createRoom();
+    const staying = join(room);
+    const readyDropped = join(room);
+    const unreadyDropped = join(room);
+    room.agentReadyState.set(staying.agentId, true);
+    room.agentReadyState.set(readyDropped.agentId, true);
+    const released = [dropWithHold(readyDropped.ws), dropWithHold(unreadyDropped.ws)];
+
+    assert.equal(areAllConnectedReady(room), true);
+    room.agentReadyState.set(staying.agentId, false);
+    assert.equal(areAllConnectedReady(room), false, 'a held ready agent does not count');
+    await Promise.all(released);
+  });
+});
@@ -0,0 +1,116 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Run history against a temporary RUNS_FILE, covering the damaged files loadRuns has to survive
+
+const VALID_RUN = {
+  id: 'run-1',
+  room: 'ALPHA',
+  startedAt: 1000,
+  participants: [{ agentId: 1, name: 'Kelso' }],
+  splits: [{ name: 'Boss 1', agentId: 1, elapsedMs: 500 }],
+  finishedAt: 3000,
+  totalMs: 2000,
+};
+
+describe('run history', () => {
+  let tmpDir: string;
+  let runsFile: string;
+  let runs: typeof import('../src/runs.js');
+  let warnings: string[];
+  const log = { warn: (...args: unknown[]) => { warnings.push(args.join(' ')); } };
+
+  // Leftovers from moving a damaged file aside
+  const corruptFiles = async () => (await readdir(tmpDir)).filter((name) => name.startsWith('runs.json.corrupt-'));
+
+  before(async () => {
+    // RUNS_FILE is read when the module loads
+    tmpDir = await mkdtemp(path.join(tmpdir(), 'runs-test-'));
+    runsFile = path.join(tmpDir, 'runs.json');
+    process.env.RUNS_FILE = runsFile;
+    runs = await import('../src/runs.js');
+  });
+
+  beforeEach(async () => {
+    warnings = [];
+    for (const name of await readdir(tmpDir)) {
+      await rm(path.join(tmpDir, name));
+    }
+  });
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('starts empty without a file', async () => {
+    assert.equal(await runs.loadRuns(log), 0);
+    assert.deepEqual(runs.listRuns(), []);
+    assert.deepEqual(warnings, []);
+  });
+
+  it('saves finished runs and lists them newest first', async () => {
+    await runs.loadRuns(log);
+    const first = runs.startRun('ALPHA', 1000, [{ agentId: 1, name: 'Kelso' }]);
+    runs.recordSplit(first, '  Boss 1  ', 1, 1500);
+    runs.recordSplit(first, '', 1, 1800);
+    await runs.finishRun(first, 3000).saved;
+    const second = runs.startRun('BRAVO', 2000, []);
+    const { record, saved } = runs.finishRun(second, 2500);
+    await saved;
+
+    assert.deepEqual(first.splits.map((split) => split.name), ['Boss 1', 'Split 2']);
+    assert.equal(record.totalMs, 500);
+    assert.deepEqual(runs.listRuns().map((run) => run.id), [second.id, first.id]);
+    assert.equal(runs.getRun(first.id)?.totalMs, 2000);
+
+    // Reloading gives back what was saved
+    assert.equal(await runs.loadRuns(log), 2);
+    assert.deepEqual(JSON.parse(await readFile(runsFile, 'utf8')), runs.listRuns().reverse());
+  });
+
+  it('filters by room, and an empty room code matches nothing', async () => {
+    await writeFile(runsFile, JSON.stringify([VALID_RUN, { ...VALID_RUN, id: 'run-2', room: 'BRAVO' }]));
+    await runs.loadRuns(log);
+
+    assert.deepEqual(runs.listRuns('ALPHA').map((run) => run.id), ['run-1']);
+    assert.deepEqual(runs.listRuns('CHARLIE'), []);
+    assert.deepEqual(runs.listRuns(''), []);
+    assert.equal(runs.listRuns().length, 2);
+  });
+
+  it('moves a file that is not JSON aside and starts empty', async () => {
+    await writeFile(runsFile, '{"id": "run-1", ');
+
+    assert.equal(await runs.loadRuns(log), 0);
+    assert.deepEqual(runs.listRuns(), []);
+    const moved = await corruptFiles();
+    assert.equal(moved.length, 1);
+    assert.equal(await readFile(path.join(tmpDir, moved[0]), 'utf8'), '{"id": "run-1", ');
+    await assert.rejects(readFile(runsFile, 'utf8'), { code: 'ENOENT' });
+    assert.equal(warnings.length, 1);
+  });
+
+  it('moves a file that is not a list aside', async () => {
+    await writeFile(runsFile, JSON.stringify({ runs: [VALID_RUN] }));
+
+    assert.equal(await runs.loadRuns(log), 0);
+    assert.equal((await corruptFiles()).length, 1);
+    assert.match(warnings[0], /not a list of runs/);
+  });
+
+  it('keeps the valid runs of a partly damaged file and copies the original', async () => {
+    const original = JSON.stringify([VALID_RUN, { id: 'run-2', room: 'ALPHA' }, null, { ...VALID_RUN, id: 'run-3', totalMs: 'fast' }]);
+    await writeFile(runsFile, original);
+
+    assert.equal(await runs.loadRuns(log), 1);
+    assert.deepEqual(runs.listRuns().map((run) => run.id), ['run-1']);
+    const copies = await corruptFiles();
+    assert.equal(copies.length, 1);
+    assert.equal(await readFile(path.join(tmpDir, copies[0]), 'utf8'), original);
+    assert.equal(await readFile(runsFile, 'utf8'), original, 'left in place until the next save');
+    assert.match(warnings[0], /Skipped 3 malformed runs/);
+  });
+});